@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { backfillLedger } from '../src/lib/ledger';
 
 const prisma = new PrismaClient();
 
@@ -27,12 +28,14 @@ async function main() {
   // Create Users
   console.log('👥 Creating users...');
   const passwordHash = await bcrypt.hash('password123', 10);
+  const emailVerified = new Date();
 
   const alice = await prisma.user.create({
     data: {
       email: 'alice@example.com',
       name: 'Alice Johnson',
       passwordHash,
+      emailVerified,
       image: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Alice',
     },
   });
@@ -42,6 +45,7 @@ async function main() {
       email: 'bob@example.com',
       name: 'Bob Smith',
       passwordHash,
+      emailVerified,
       image: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Bob',
     },
   });
@@ -51,6 +55,7 @@ async function main() {
       email: 'charlie@example.com',
       name: 'Charlie Davis',
       passwordHash,
+      emailVerified,
       image: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Charlie',
     },
   });
@@ -60,6 +65,7 @@ async function main() {
       email: 'diana@example.com',
       name: 'Diana Martinez',
       passwordHash,
+      emailVerified,
       image: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Diana',
     },
   });
@@ -102,7 +108,7 @@ async function main() {
 
   console.log('✅ Created 2 groups');
 
-  // Create Receipts with Items
+  // Create Receipts with Items (all amounts below are in cents)
   console.log('🧾 Creating receipts...');
 
   const receipt1 = await prisma.receipt.create({
@@ -110,7 +116,7 @@ async function main() {
       imageUrl: 'https://placehold.co/600x400/png?text=Restaurant+Receipt',
       imageKey: 'receipts/sample-1.png',
       merchant: 'Olive Garden',
-      total: 87.45,
+      total: 8745,
       date: new Date('2024-12-20T19:30:00'),
       currency: 'USD',
       parsed: true,
@@ -129,12 +135,12 @@ async function main() {
       groupId: roommates.id,
       items: {
         create: [
-          { name: 'Fettuccine Alfredo', price: 18.99, quantity: 1, category: 'main' },
-          { name: 'Margherita Pizza', price: 15.99, quantity: 1, category: 'main' },
-          { name: 'Caesar Salad', price: 9.99, quantity: 1, category: 'appetizer' },
-          { name: 'Tiramisu', price: 7.99, quantity: 2, category: 'dessert' },
-          { name: 'Red Wine Bottle', price: 22.00, quantity: 1, category: 'beverage' },
-          { name: 'Tax', price: 4.50, quantity: 1, category: 'tax' },
+          { name: 'Fettuccine Alfredo', price: 1899, quantity: 1, category: 'main' },
+          { name: 'Margherita Pizza', price: 1599, quantity: 1, category: 'main' },
+          { name: 'Caesar Salad', price: 999, quantity: 1, category: 'appetizer' },
+          { name: 'Tiramisu', price: 799, quantity: 2, category: 'dessert' },
+          { name: 'Red Wine Bottle', price: 2200, quantity: 1, category: 'beverage' },
+          { name: 'Tax', price: 450, quantity: 1, category: 'tax' },
         ],
       },
     },
@@ -145,7 +151,7 @@ async function main() {
       imageUrl: 'https://placehold.co/600x400/png?text=Grocery+Receipt',
       imageKey: 'receipts/sample-2.png',
       merchant: 'Whole Foods',
-      total: 142.67,
+      total: 14267,
       date: new Date('2024-12-22T14:15:00'),
       currency: 'USD',
       parsed: true,
@@ -154,15 +160,15 @@ async function main() {
       groupId: roommates.id,
       items: {
         create: [
-          { name: 'Organic Milk', price: 5.99, quantity: 2, category: 'dairy' },
-          { name: 'Fresh Bread', price: 4.50, quantity: 3, category: 'bakery' },
-          { name: 'Chicken Breast', price: 18.99, quantity: 2, category: 'meat' },
-          { name: 'Mixed Vegetables', price: 12.50, quantity: 1, category: 'produce' },
-          { name: 'Pasta', price: 3.99, quantity: 4, category: 'pantry' },
-          { name: 'Olive Oil', price: 15.99, quantity: 1, category: 'pantry' },
-          { name: 'Coffee Beans', price: 14.99, quantity: 2, category: 'beverages' },
-          { name: 'Yogurt', price: 6.99, quantity: 3, category: 'dairy' },
-          { name: 'Apples', price: 8.50, quantity: 1, category: 'produce' },
+          { name: 'Organic Milk', price: 599, quantity: 2, category: 'dairy' },
+          { name: 'Fresh Bread', price: 450, quantity: 3, category: 'bakery' },
+          { name: 'Chicken Breast', price: 1899, quantity: 2, category: 'meat' },
+          { name: 'Mixed Vegetables', price: 1250, quantity: 1, category: 'produce' },
+          { name: 'Pasta', price: 399, quantity: 4, category: 'pantry' },
+          { name: 'Olive Oil', price: 1599, quantity: 1, category: 'pantry' },
+          { name: 'Coffee Beans', price: 1499, quantity: 2, category: 'beverages' },
+          { name: 'Yogurt', price: 699, quantity: 3, category: 'dairy' },
+          { name: 'Apples', price: 850, quantity: 1, category: 'produce' },
         ],
       },
     },
@@ -173,7 +179,7 @@ async function main() {
       imageUrl: 'https://placehold.co/600x400/png?text=Hotel+Receipt',
       imageKey: 'receipts/sample-3.png',
       merchant: 'Bellagio Hotel',
-      total: 780.00,
+      total: 78000,
       date: new Date('2024-12-15T15:00:00'),
       currency: 'USD',
       parsed: true,
@@ -182,10 +188,10 @@ async function main() {
       groupId: weekend.id,
       items: {
         create: [
-          { name: 'Room - 2 Nights', price: 600.00, quantity: 1, category: 'accommodation' },
-          { name: 'Room Service', price: 85.00, quantity: 1, category: 'food' },
-          { name: 'Resort Fee', price: 70.00, quantity: 1, category: 'fees' },
-          { name: 'Tax', price: 25.00, quantity: 1, category: 'tax' },
+          { name: 'Room - 2 Nights', price: 60000, quantity: 1, category: 'accommodation' },
+          { name: 'Room Service', price: 8500, quantity: 1, category: 'food' },
+          { name: 'Resort Fee', price: 7000, quantity: 1, category: 'fees' },
+          { name: 'Tax', price: 2500, quantity: 1, category: 'tax' },
         ],
       },
     },
@@ -200,7 +206,7 @@ async function main() {
   const split1 = await prisma.split.create({
     data: {
       receiptId: receipt1.id,
-      amount: 87.45,
+      amount: 8745,
       percentage: 100,
       description: 'Dinner split equally',
       paidBy: alice.id,
@@ -209,13 +215,13 @@ async function main() {
           {
             debtorId: bob.id,
             creditorId: alice.id,
-            amount: 29.15, // 87.45 / 3
+            amount: 2915, // 87.45 / 3
             settled: false,
           },
           {
             debtorId: charlie.id,
             creditorId: alice.id,
-            amount: 29.15,
+            amount: 2915,
             settled: false,
           },
         ],
@@ -227,7 +233,7 @@ async function main() {
   const split2 = await prisma.split.create({
     data: {
       receiptId: receipt2.id,
-      amount: 142.67,
+      amount: 14267,
       percentage: 100,
       description: 'Weekly groceries',
       paidBy: bob.id,
@@ -236,13 +242,13 @@ async function main() {
           {
             debtorId: alice.id,
             creditorId: bob.id,
-            amount: 47.56, // 142.67 / 3
+            amount: 4756, // 142.67 / 3
             settled: false,
           },
           {
             debtorId: charlie.id,
             creditorId: bob.id,
-            amount: 47.56,
+            amount: 4756,
             settled: false,
           },
         ],
@@ -254,7 +260,7 @@ async function main() {
   const split3 = await prisma.split.create({
     data: {
       receiptId: receipt3.id,
-      amount: 780.00,
+      amount: 78000,
       percentage: 100,
       description: 'Hotel room - Vegas trip',
       paidBy: bob.id,
@@ -263,20 +269,20 @@ async function main() {
           {
             debtorId: alice.id,
             creditorId: bob.id,
-            amount: 195.00, // 780 / 4
+            amount: 19500, // 780 / 4
             settled: false,
           },
           {
             debtorId: charlie.id,
             creditorId: bob.id,
-            amount: 195.00,
+            amount: 19500,
             settled: true, // Charlie already paid back
             settledAt: new Date('2024-12-16T10:00:00'),
           },
           {
             debtorId: diana.id,
             creditorId: bob.id,
-            amount: 195.00,
+            amount: 19500,
             settled: false,
           },
         ],
@@ -286,6 +292,9 @@ async function main() {
 
   console.log('✅ Created splits and debts');
 
+  // Balances are read from the ledger, so record the open debts there too
+  await backfillLedger();
+
   // Create some settled transactions
   console.log('💸 Creating transactions...');
 
@@ -293,7 +302,7 @@ async function main() {
     data: {
       fromUserId: charlie.id,
       toUserId: bob.id,
-      amount: 195.00,
+      amount: 19500,
       currency: 'USD',
       status: 'completed',
       description: 'Hotel payment - Vegas trip',
@@ -307,11 +316,13 @@ async function main() {
     data: {
       fromUserId: alice.id,
       toUserId: bob.id,
-      amount: 47.56,
+      amount: 4756,
       currency: 'USD',
       status: 'pending',
       description: 'Groceries share',
       paymentMethod: 'venmo',
+      sentAt: new Date('2024-12-18T09:00:00'),
+      autoConfirmAt: new Date('2024-12-25T09:00:00'),
     },
   });
 
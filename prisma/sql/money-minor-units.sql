@@ -0,0 +1,69 @@
+-- Move every ledger amount from Float major units to Int minor units.
+--
+-- Run once against an existing database BEFORE `npm run db:push`:
+--   npm run db:migrate-money
+--
+-- Amounts are scaled by the minor-unit digits of the owning currency
+-- (receipts and transactions carry their own; items, splits, payments and
+-- debts use their receipt's). Fresh databases don't need this.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION fairsplit_minor_scale(currency TEXT) RETURNS NUMERIC AS $$
+  SELECT CASE
+    WHEN upper(currency) IN ('BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW', 'PYG',
+                             'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF') THEN 1
+    WHEN upper(currency) IN ('BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND') THEN 1000
+    ELSE 100
+  END
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Receipts and transactions know their own currency
+ALTER TABLE "receipts"
+  ALTER COLUMN "total" TYPE INTEGER USING round("total" * fairsplit_minor_scale("currency")),
+  ALTER COLUMN "tax" TYPE INTEGER USING round("tax" * fairsplit_minor_scale("currency")),
+  ALTER COLUMN "tip" TYPE INTEGER USING round("tip" * fairsplit_minor_scale("currency")),
+  ALTER COLUMN "serviceCharge" TYPE INTEGER USING round("serviceCharge" * fairsplit_minor_scale("currency")),
+  ALTER COLUMN "discount" TYPE INTEGER USING round("discount" * fairsplit_minor_scale("currency"));
+
+ALTER TABLE "transactions"
+  ALTER COLUMN "amount" TYPE INTEGER USING round("amount" * fairsplit_minor_scale("currency"));
+
+-- Everything else takes the currency of its receipt, which a USING clause
+-- cannot look up, so scale in place first and change the type afterwards
+UPDATE "receipt_items" i SET "price" = round(i."price" * fairsplit_minor_scale(r."currency"))
+  FROM "receipts" r WHERE r."id" = i."receiptId";
+ALTER TABLE "receipt_items" ALTER COLUMN "price" TYPE INTEGER USING round("price");
+
+UPDATE "receipt_payments" p SET "amount" = round(p."amount" * fairsplit_minor_scale(r."currency"))
+  FROM "receipts" r WHERE r."id" = p."receiptId";
+ALTER TABLE "receipt_payments" ALTER COLUMN "amount" TYPE INTEGER USING round("amount");
+
+UPDATE "item_assignments" a SET "amount" = round(a."amount" * fairsplit_minor_scale(r."currency"))
+  FROM "receipt_items" i JOIN "receipts" r ON r."id" = i."receiptId" WHERE i."id" = a."itemId";
+ALTER TABLE "item_assignments" ALTER COLUMN "amount" TYPE INTEGER USING round("amount");
+
+UPDATE "splits" s SET
+  "amount" = round(s."amount" * fairsplit_minor_scale(r."currency")),
+  "breakdown" = CASE WHEN s."breakdown" IS NULL THEN NULL ELSE jsonb_build_object(
+    'subtotal', round((s."breakdown"->>'subtotal')::numeric * fairsplit_minor_scale(r."currency")),
+    'tax', round((s."breakdown"->>'tax')::numeric * fairsplit_minor_scale(r."currency")),
+    'tip', round((s."breakdown"->>'tip')::numeric * fairsplit_minor_scale(r."currency")),
+    'serviceCharge', round((s."breakdown"->>'serviceCharge')::numeric * fairsplit_minor_scale(r."currency")),
+    'discount', round((s."breakdown"->>'discount')::numeric * fairsplit_minor_scale(r."currency")),
+    'total', round((s."breakdown"->>'total')::numeric * fairsplit_minor_scale(r."currency"))
+  ) END
+  FROM "receipts" r WHERE r."id" = s."receiptId";
+ALTER TABLE "splits" ALTER COLUMN "amount" TYPE INTEGER USING round("amount");
+
+UPDATE "debts" d SET
+  "amount" = round(d."amount" * fairsplit_minor_scale(r."currency")),
+  "originalAmount" = round(d."originalAmount" * fairsplit_minor_scale(r."currency"))
+  FROM "splits" s JOIN "receipts" r ON r."id" = s."receiptId" WHERE s."id" = d."splitId";
+ALTER TABLE "debts"
+  ALTER COLUMN "amount" TYPE INTEGER USING round("amount"),
+  ALTER COLUMN "originalAmount" TYPE INTEGER USING round("originalAmount");
+
+DROP FUNCTION fairsplit_minor_scale(TEXT);
+
+COMMIT;
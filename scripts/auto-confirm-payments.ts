@@ -0,0 +1,23 @@
+import { prisma } from '../src/lib/db';
+import { autoConfirmTransactions } from '../src/lib/transactions';
+
+async function run() {
+  console.log('⏰ Confirming payments whose recipients did not respond in time...\n');
+
+  const { confirmed, failures } = await autoConfirmTransactions();
+
+  for (const failure of failures) {
+    console.log(`⚠️  ${failure.transactionId}: ${failure.error}`);
+  }
+
+  console.log(`✨ Done! Confirmed ${confirmed} payments, ${failures.length} left pending.`);
+}
+
+run()
+  .catch((error) => {
+    console.error('Error confirming payments:', error);
+    process.exit(1);
+  })
+  .finally(() => {
+    prisma.$disconnect();
+  });
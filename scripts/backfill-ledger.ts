@@ -0,0 +1,19 @@
+import { prisma } from '../src/lib/db';
+import { backfillLedger } from '../src/lib/ledger';
+
+async function run() {
+  console.log('📒 Writing opening balances for groups without ledger entries...\n');
+
+  const debts = await backfillLedger();
+
+  console.log(`✨ Done! Recorded ${debts} open debts on the ledger.`);
+}
+
+run()
+  .catch((error) => {
+    console.error('Error backfilling ledger:', error);
+    process.exit(1);
+  })
+  .finally(() => {
+    prisma.$disconnect();
+  });
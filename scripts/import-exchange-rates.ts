@@ -0,0 +1,28 @@
+import { readFileSync } from 'fs';
+import { prisma } from '../src/lib/db';
+import { parseExchangeRates, saveExchangeRates } from '../src/lib/exchange';
+
+async function importExchangeRates() {
+  const file = process.argv[2];
+  if (!file) {
+    console.error('Usage: npm run rates:import -- <rates.csv|rates.json>');
+    process.exit(1);
+  }
+
+  console.log(`💱 Importing exchange rates from ${file}...\n`);
+
+  const format = file.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+  const rates = parseExchangeRates(readFileSync(file, 'utf8'), format);
+  const saved = await saveExchangeRates(rates, 'file');
+
+  console.log(`✨ Done! Stored ${saved} exchange rates.`);
+}
+
+importExchangeRates()
+  .catch((error) => {
+    console.error('Error importing exchange rates:', error);
+    process.exit(1);
+  })
+  .finally(() => {
+    prisma.$disconnect();
+  });
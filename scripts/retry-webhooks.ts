@@ -0,0 +1,22 @@
+import { prisma } from '../src/lib/db';
+import { retryDueDeliveries } from '../src/lib/webhooks';
+
+async function run() {
+  console.log('🔁 Retrying webhook deliveries that are due...\n');
+
+  const { attempted, succeeded, failed } = await retryDueDeliveries();
+
+  console.log(
+    `✨ Done! Attempted ${attempted} deliveries: ${succeeded} delivered, ` +
+      `${failed} given up on, ${attempted - succeeded - failed} to retry later.`
+  );
+}
+
+run()
+  .catch((error) => {
+    console.error('Error retrying webhooks:', error);
+    process.exit(1);
+  })
+  .finally(() => {
+    prisma.$disconnect();
+  });
@@ -1,21 +1,57 @@
 import { BaseAgent } from './base/Agent';
+import type { PaymentMethod } from '@/lib/payments';
 import { roundTo } from '@/lib/utils';
 
+// All amounts are integer minor units (e.g. cents) of a single currency
+
+// Largest number of people with a non-zero balance the exact solver handles;
+// its cost grows as 2^n, so bigger groups fall back to greedy matching
+export const EXACT_SOLVER_LIMIT = 20;
+
+// Same for the constrained solver, which costs 3^n
+export const CONSTRAINED_SOLVER_LIMIT = 14;
+
+export type SettlementAlgorithm = 'exact' | 'greedy' | 'constrained';
+
 export interface Debt {
+  id?: string; // Stored debt this came from, if any
   from: string; // User ID who owes
   to: string;   // User ID who is owed
   amount: number;
 }
 
+// Two members who are willing to pay each other, in either direction
+export interface AllowedPair {
+  from: string;
+  to: string;
+}
+
 export interface DebtOptimizeInput {
   debts: Debt[];
-  minimumAmount?: number; // Forgive debts below this amount
+  minimumAmount?: number; // Forgive net positions below this amount (default: none)
+  forgivenessCap?: number; // Most any one member can have forgiven or give up
+  allowedPairs?: AllowedPair[]; // Omitted: anyone may pay anyone
+  paymentMethods?: Record<string, PaymentMethod[]>; // Omitted member: accepts any method
+}
+
+export interface DebtCycle {
+  people: string[]; // The loop, first person repeated at the end: A, B, C, A
+  amount: number; // Taken off every debt in the loop
+  debts: number[]; // Indexes of the input debts in the loop
 }
 
 export interface Transaction {
   from: string;
   to: string;
   amount: number;
+  method?: PaymentMethod;
+}
+
+// `creditor` lets `debtor` off `amount`; in the books it counts like a payment
+export interface Forgiveness {
+  debtor: string;
+  creditor: string;
+  amount: number;
 }
 
 export interface DebtOptimizeOutput {
@@ -25,6 +61,15 @@ export interface DebtOptimizeOutput {
   saved: number; // Number of transactions saved
   totalAmount: number;
   balances: Record<string, number>; // Net position for each person
+  algorithm: SettlementAlgorithm;
+  // Transfers above the proven minimum: 0 for the exact solver,
+  // an upper bound (against max(debtors, creditors)) for greedy,
+  // and against the unconstrained minimum for the constrained solver
+  optimalityGap: number;
+  feasible: boolean;
+  infeasibleReasons?: string[]; // Why the constraints leave balances unsettleable
+  forgiven: Forgiveness[]; // Small balances written off instead of paid
+  totalForgiven: number;
 }
 
 interface NetPosition {
@@ -32,13 +77,16 @@ interface NetPosition {
   balance: number;
 }
 
+// Usable payment edges: person -> neighbour -> method they share (undefined: any)
+type PaymentGraph = Map<string, Map<string, PaymentMethod | undefined>>;
+
 export class DebtOptimizerAgent extends BaseAgent<DebtOptimizeInput, DebtOptimizeOutput> {
   constructor() {
     super('DebtOptimizer');
   }
 
   protected async execute(input: DebtOptimizeInput): Promise<DebtOptimizeOutput> {
-    const { debts, minimumAmount = 0.5 } = input;
+    const { debts, minimumAmount = 0 } = input;
 
     if (debts.length === 0) {
       return {
@@ -48,39 +96,151 @@ export class DebtOptimizerAgent extends BaseAgent<DebtOptimizeInput, DebtOptimiz
         saved: 0,
         totalAmount: 0,
         balances: {},
+        algorithm: 'exact',
+        optimalityGap: 0,
+        feasible: true,
+        forgiven: [],
+        totalForgiven: 0,
       };
     }
 
+    if (debts.some(d => !Number.isSafeInteger(d.amount))) {
+      throw new Error('Debt amounts must be whole minor units');
+    }
+
     // Calculate net positions for each person
     const netPositions = this.calculateNetPositions(debts);
 
-    // Apply minimum amount threshold (forgiveness)
-    const filteredPositions = netPositions.filter(
-      np => Math.abs(np.balance) >= minimumAmount
+    // Write off balances below the threshold, recording who absorbs each one
+    const { forgiven, positions: filteredPositions } = this.forgiveSmallBalances(
+      netPositions,
+      minimumAmount,
+      input.forgivenessCap ?? Infinity
     );
-
-    // Optimize using greedy algorithm
-    const optimizedTransactions = this.optimizeDebts(filteredPositions);
-
-    // Calculate total amount
-    const totalAmount = optimizedTransactions.reduce((sum, t) => sum + t.amount, 0);
+    const totalForgiven = forgiven.reduce((sum, f) => sum + f.amount, 0);
 
     // Build balances object
     const balances: Record<string, number> = {};
     netPositions.forEach(np => {
-      balances[np.person] = roundTo(np.balance, 2);
+      balances[np.person] = np.balance;
     });
 
+    // Exact when the group is small enough, greedy otherwise
+    const nonZero = filteredPositions.filter(np => np.balance !== 0);
+    const unconstrained =
+      nonZero.length <= EXACT_SOLVER_LIMIT ? this.optimizeDebtsExact(nonZero) : null;
+    const lowerBound = unconstrained
+      ? unconstrained.length
+      : Math.max(
+          nonZero.filter(np => np.balance > 0).length,
+          nonZero.filter(np => np.balance < 0).length
+        );
+
+    let algorithm: SettlementAlgorithm = unconstrained ? 'exact' : 'greedy';
+    let optimizedTransactions = unconstrained || this.optimizeDebts(nonZero);
+
+    if (input.allowedPairs || input.paymentMethods) {
+      const constrained = this.optimizeWithConstraints(filteredPositions, input);
+
+      if ('reasons' in constrained) {
+        return {
+          originalTransactions: debts.length,
+          optimizedTransactions: 0,
+          transactions: [],
+          saved: 0,
+          totalAmount: 0,
+          balances,
+          algorithm: 'constrained',
+          optimalityGap: 0,
+          feasible: false,
+          infeasibleReasons: constrained.reasons,
+          forgiven,
+          totalForgiven,
+        };
+      }
+
+      algorithm = 'constrained';
+      optimizedTransactions = constrained.transactions;
+    }
+
+    const optimalityGap = optimizedTransactions.length - lowerBound;
+
+    // Calculate total amount
+    const totalAmount = optimizedTransactions.reduce((sum, t) => sum + t.amount, 0);
+
     return {
       originalTransactions: debts.length,
       optimizedTransactions: optimizedTransactions.length,
       transactions: optimizedTransactions,
       saved: debts.length - optimizedTransactions.length,
-      totalAmount: roundTo(totalAmount, 2),
+      totalAmount,
       balances,
+      algorithm,
+      optimalityGap,
+      feasible: true,
+      forgiven,
+      totalForgiven,
     };
   }
 
+  /**
+   * Forgive every net position smaller than the threshold. A small debt is
+   * absorbed by the biggest creditors, a small credit is given up in favour of
+   * the biggest debtors, so the books still balance. Someone is only let off
+   * (or gives up) their whole balance, and nobody goes past the cap.
+   */
+  private forgiveSmallBalances(
+    netPositions: NetPosition[],
+    threshold: number,
+    cap: number
+  ): { forgiven: Forgiveness[]; positions: NetPosition[] } {
+    const positions = netPositions.map(np => ({ ...np }));
+    const used = new Map<string, number>();
+    const room = (person: string) => cap - (used.get(person) || 0);
+    const forgiven: Forgiveness[] = [];
+
+    const small = positions
+      .filter(np => np.balance !== 0 && Math.abs(np.balance) < threshold)
+      .sort((a, b) => Math.abs(a.balance) - Math.abs(b.balance));
+
+    for (const position of small) {
+      const amount = Math.abs(position.balance);
+      if (position.balance === 0 || room(position.person) < amount) continue;
+
+      // The other side: people with the opposite balance, biggest first
+      const counterparts = positions
+        .filter(np => np !== position && Math.sign(np.balance) === -Math.sign(position.balance))
+        .sort((a, b) => Math.abs(b.balance) - Math.abs(a.balance));
+
+      const chunks: { counterpart: NetPosition; amount: number }[] = [];
+      let left = amount;
+      for (const counterpart of counterparts) {
+        if (left === 0) break;
+        const take = Math.min(left, Math.abs(counterpart.balance), room(counterpart.person));
+        if (take > 0) {
+          chunks.push({ counterpart, amount: take });
+          left -= take;
+        }
+      }
+      if (left > 0) continue;
+
+      for (const chunk of chunks) {
+        const isDebtor = position.balance < 0;
+        forgiven.push({
+          debtor: isDebtor ? position.person : chunk.counterpart.person,
+          creditor: isDebtor ? chunk.counterpart.person : position.person,
+          amount: chunk.amount,
+        });
+        chunk.counterpart.balance += isDebtor ? -chunk.amount : chunk.amount;
+        used.set(chunk.counterpart.person, (used.get(chunk.counterpart.person) || 0) + chunk.amount);
+      }
+      used.set(position.person, (used.get(position.person) || 0) + amount);
+      position.balance = 0;
+    }
+
+    return { forgiven, positions };
+  }
+
   /**
    * Calculate net position for each person
    * Positive = owed money, Negative = owes money
@@ -97,10 +257,9 @@ export class DebtOptimizerAgent extends BaseAgent<DebtOptimizeInput, DebtOptimiz
       positions.set(debt.to, (positions.get(debt.to) || 0) + debt.amount);
     }
 
-    // Convert to array and round
     return Array.from(positions.entries()).map(([person, balance]) => ({
       person,
-      balance: roundTo(balance, 2),
+      balance,
     }));
   }
 
@@ -114,6 +273,7 @@ export class DebtOptimizerAgent extends BaseAgent<DebtOptimizeInput, DebtOptimiz
     // Separate creditors (positive balance) and debtors (negative balance)
     const creditors = netPositions
       .filter(np => np.balance > 0)
+      .map(np => ({ ...np })) // Copy so the caller's balances aren't consumed
       .sort((a, b) => b.balance - a.balance); // Sort descending
     
     const debtors = netPositions
@@ -132,17 +292,17 @@ export class DebtOptimizerAgent extends BaseAgent<DebtOptimizeInput, DebtOptimiz
       // Amount to settle is the minimum of what's owed and what's due
       const amount = Math.min(creditor.balance, debtor.balance);
 
-      if (amount >= 0.01) { // Ignore very small amounts
+      if (amount > 0) {
         transactions.push({
           from: debtor.person,
           to: creditor.person,
-          amount: roundTo(amount, 2),
+          amount,
         });
       }
 
       // Update balances
-      creditor.balance = roundTo(creditor.balance - amount, 2);
-      debtor.balance = roundTo(debtor.balance - amount, 2);
+      creditor.balance -= amount;
+      debtor.balance -= amount;
 
       // Move to next person if current one is settled
       if (creditor.balance === 0) i++;
@@ -152,16 +312,302 @@ export class DebtOptimizerAgent extends BaseAgent<DebtOptimizeInput, DebtOptimiz
     return transactions;
   }
 
+  /**
+   * Fewest possible transfers, found by splitting people into as many
+   * zero-sum subsets as possible: a subset of k people settles in k - 1
+   * transfers, so n people in m subsets need n - m. Dynamic programming
+   * over bitmasks, O(2^n * n) for n people with a non-zero balance.
+   */
+  private optimizeDebtsExact(netPositions: NetPosition[]): Transaction[] {
+    const n = netPositions.length;
+    if (n === 0) return [];
+
+    const size = 1 << n;
+    const sums = new Float64Array(size);
+    const groups = new Int8Array(size); // Most zero-sum subsets a mask can be cut into
+
+    for (let mask = 1; mask < size; mask++) {
+      const low = mask & -mask;
+      sums[mask] = sums[mask ^ low] + netPositions[31 - Math.clz32(low)].balance;
+
+      let best = 0;
+      for (let i = 0; i < n; i++) {
+        if (mask & (1 << i)) best = Math.max(best, groups[mask ^ (1 << i)]);
+      }
+      groups[mask] = best + (sums[mask] === 0 ? 1 : 0);
+    }
+
+    // Walk back from everyone, peeling off one person at a time;
+    // a zero running sum marks the end of a subset
+    const subsets: NetPosition[][] = [];
+    let current: NetPosition[] = [];
+    let mask = size - 1;
+
+    while (mask) {
+      const closes = sums[mask] === 0 ? 1 : 0;
+      let next = 0;
+      for (let i = 0; i < n; i++) {
+        if ((mask & (1 << i)) && groups[mask ^ (1 << i)] + closes === groups[mask]) {
+          next = i;
+          break;
+        }
+      }
+
+      if (closes && current.length > 0) {
+        subsets.push(current);
+        current = [];
+      }
+      current.push(netPositions[next]);
+      mask ^= 1 << next;
+    }
+    if (current.length > 0) subsets.push(current);
+
+    // Greedy matching inside a zero-sum subset never needs more than k - 1 transfers
+    return subsets.flatMap(subset => this.optimizeDebts(subset));
+  }
+
+  /**
+   * Fewest transfers that only use allowed pairs with a shared payment method.
+   * Each connected part of the payment graph must net to zero on its own.
+   * Inside it, people are split into zero-sum subsets (exactly, for up to
+   * CONSTRAINED_SOLVER_LIMIT people) and each subset settles along a tree
+   * that may route money through members with no balance of their own.
+   */
+  private optimizeWithConstraints(
+    netPositions: NetPosition[],
+    input: DebtOptimizeInput
+  ): { transactions: Transaction[] } | { reasons: string[] } {
+    const balanceOf = new Map(netPositions.map(np => [np.person, np.balance]));
+    const people = new Set(balanceOf.keys());
+    input.allowedPairs?.forEach(p => people.add(p.from).add(p.to));
+    Object.keys(input.paymentMethods || {}).forEach(person => people.add(person));
+
+    const graph = this.buildPaymentGraph(Array.from(people), input);
+    const reasons: string[] = [];
+    const transactions: Transaction[] = [];
+
+    for (const component of this.connectedComponents(graph)) {
+      const terminals = component.filter(person => (balanceOf.get(person) || 0) !== 0);
+      if (terminals.length === 0) continue;
+
+      const net = terminals.reduce((sum, person) => sum + balanceOf.get(person)!, 0);
+      if (net !== 0) {
+        reasons.push(
+          component.length === 1
+            ? `${component[0]} has nobody they are allowed to pay with a shared payment method`
+            : `${component.join(', ')} can only pay each other, but their balances are off by ${net}`
+        );
+        continue;
+      }
+
+      const subsets =
+        terminals.length <= CONSTRAINED_SOLVER_LIMIT
+          ? this.partitionZeroSum(terminals, balanceOf, graph)
+          : [terminals];
+
+      for (const subset of subsets) {
+        const edges = this.steinerTree(subset, graph)!;
+        transactions.push(...this.settleAlongTree(subset[0], edges, balanceOf, graph));
+      }
+    }
+
+    return reasons.length > 0 ? { reasons } : { transactions };
+  }
+
+  private buildPaymentGraph(people: string[], input: DebtOptimizeInput): PaymentGraph {
+    const allowed = input.allowedPairs
+      ? new Set(input.allowedPairs.flatMap(p => [`${p.from}:${p.to}`, `${p.to}:${p.from}`]))
+      : null;
+    const graph: PaymentGraph = new Map(people.map(person => [person, new Map()]));
+
+    for (const a of people) {
+      for (const b of people) {
+        if (a === b || (allowed && !allowed.has(`${a}:${b}`))) continue;
+
+        const methodsA = input.paymentMethods?.[a];
+        const methodsB = input.paymentMethods?.[b];
+        const shared =
+          methodsA && methodsB
+            ? methodsA.filter(m => methodsB.includes(m))
+            : methodsA || methodsB || [undefined];
+
+        if (shared.length > 0) graph.get(a)!.set(b, shared[0]);
+      }
+    }
+
+    return graph;
+  }
+
+  private connectedComponents(graph: PaymentGraph): string[][] {
+    const seen = new Set<string>();
+    const components: string[][] = [];
+
+    for (const start of graph.keys()) {
+      if (seen.has(start)) continue;
+
+      const component: string[] = [];
+      const queue = [start];
+      seen.add(start);
+      while (queue.length > 0) {
+        const person = queue.shift()!;
+        component.push(person);
+        for (const next of graph.get(person)!.keys()) {
+          if (!seen.has(next)) {
+            seen.add(next);
+            queue.push(next);
+          }
+        }
+      }
+      components.push(component);
+    }
+
+    return components;
+  }
+
+  /**
+   * Split people into zero-sum subsets with the fewest total tree edges,
+   * trying every subset of every remaining set (O(3^n))
+   */
+  private partitionZeroSum(
+    people: string[],
+    balanceOf: Map<string, number>,
+    graph: PaymentGraph
+  ): string[][] {
+    const n = people.length;
+    const size = 1 << n;
+    const membersOf = (mask: number) => people.filter((_, i) => mask & (1 << i));
+
+    const sums = new Float64Array(size);
+    for (let mask = 1; mask < size; mask++) {
+      const low = mask & -mask;
+      sums[mask] = sums[mask ^ low] + balanceOf.get(people[31 - Math.clz32(low)])!;
+    }
+
+    const treeCost = new Map<number, number>();
+    const costOf = (mask: number) => {
+      if (!treeCost.has(mask)) {
+        const edges = this.steinerTree(membersOf(mask), graph);
+        treeCost.set(mask, edges ? edges.length : Infinity);
+      }
+      return treeCost.get(mask)!;
+    };
+
+    const best = new Float64Array(size).fill(Infinity);
+    const choice = new Int32Array(size);
+    best[0] = 0;
+
+    for (let mask = 1; mask < size; mask++) {
+      if (sums[mask] !== 0) continue;
+
+      // The subset holding the lowest member, then the best split of the rest
+      const low = mask & -mask;
+      const rest = mask ^ low;
+      for (let sub = rest; ; sub = (sub - 1) & rest) {
+        const subset = sub | low;
+        if (sums[subset] === 0 && best[mask ^ subset] < Infinity) {
+          const cost = costOf(subset) + best[mask ^ subset];
+          if (cost < best[mask]) {
+            best[mask] = cost;
+            choice[mask] = subset;
+          }
+        }
+        if (sub === 0) break;
+      }
+    }
+
+    const subsets: string[][] = [];
+    for (let mask = size - 1; mask; mask ^= choice[mask]) {
+      subsets.push(membersOf(choice[mask]));
+    }
+    return subsets;
+  }
+
+  /**
+   * Tree connecting the given people, adding the nearest one each time
+   * (shortest-path heuristic); null if some of them can't be reached
+   */
+  private steinerTree(people: string[], graph: PaymentGraph): [string, string][] | null {
+    const inTree = new Set([people[0]]);
+    const remaining = new Set(people.slice(1));
+    const edges: [string, string][] = [];
+
+    while (remaining.size > 0) {
+      const parent = new Map<string, string>();
+      const queue = Array.from(inTree);
+      let found: string | null = null;
+
+      for (let i = 0; i < queue.length && !found; i++) {
+        for (const next of graph.get(queue[i])!.keys()) {
+          if (inTree.has(next) || parent.has(next)) continue;
+          parent.set(next, queue[i]);
+          if (remaining.has(next)) {
+            found = next;
+            break;
+          }
+          queue.push(next);
+        }
+      }
+
+      if (!found) return null;
+
+      for (let node = found; !inTree.has(node); node = parent.get(node)!) {
+        edges.push([parent.get(node)!, node]);
+        inTree.add(node);
+        remaining.delete(node);
+      }
+    }
+
+    return edges;
+  }
+
+  /**
+   * On a tree the transfers are fixed: each edge carries whatever
+   * the subtree below it is owed (or owes) in total
+   */
+  private settleAlongTree(
+    root: string,
+    edges: [string, string][],
+    balanceOf: Map<string, number>,
+    graph: PaymentGraph
+  ): Transaction[] {
+    const children = new Map<string, string[]>();
+    edges.forEach(([parent, child]) => {
+      children.set(parent, [...(children.get(parent) || []), child]);
+    });
+
+    const transactions: Transaction[] = [];
+    const subtreeBalance = (person: string): number => {
+      let total = balanceOf.get(person) || 0;
+
+      for (const child of children.get(person) || []) {
+        const owed = subtreeBalance(child);
+        if (owed > 0) {
+          transactions.push({ from: person, to: child, amount: owed });
+        } else if (owed < 0) {
+          transactions.push({ from: child, to: person, amount: -owed });
+        }
+        total += owed;
+      }
+
+      return total;
+    };
+    subtreeBalance(root);
+
+    return transactions.map(t => ({ ...t, method: graph.get(t.from)!.get(t.to) }));
+  }
+
   /**
    * Validate that optimized transactions preserve net positions
    */
   protected async validateOutput(output: DebtOptimizeOutput): Promise<void> {
-    // Calculate net positions from optimized transactions
-    const debtsFromOptimized: Debt[] = output.transactions.map(t => ({
-      from: t.from,
-      to: t.to,
-      amount: t.amount,
-    }));
+    // Nothing to check when no plan could be made
+    if (!output.feasible) return;
+
+    // Calculate net positions from optimized transactions, counting forgiveness as paid
+    const debtsFromOptimized: Debt[] = [
+      ...output.transactions.map(t => ({ from: t.from, to: t.to, amount: t.amount })),
+      ...output.forgiven.map(f => ({ from: f.debtor, to: f.creditor, amount: f.amount })),
+    ];
 
     const newPositions = this.calculateNetPositions(debtsFromOptimized);
     const newBalances: Record<string, number> = {};
@@ -169,12 +615,11 @@ export class DebtOptimizerAgent extends BaseAgent<DebtOptimizeInput, DebtOptimiz
       newBalances[np.person] = np.balance;
     });
 
-    // Check if balances match
+    // Check if balances match exactly
     for (const [person, originalBalance] of Object.entries(output.balances)) {
       const newBalance = newBalances[person] || 0;
-      const difference = Math.abs(originalBalance - newBalance);
 
-      if (difference > 0.01) {
+      if (originalBalance !== newBalance) {
         throw new Error(
           `Balance mismatch for ${person}: ` +
           `original ${originalBalance}, optimized ${newBalance}`
@@ -184,67 +629,87 @@ export class DebtOptimizerAgent extends BaseAgent<DebtOptimizeInput, DebtOptimiz
   }
 
   /**
-   * Find circular debts (A owes B, B owes C, C owes A)
-   * and eliminate them
+   * Cancel circular debts (A owes B, B owes C, C owes A): every debt in a
+   * loop is reduced by the loop's smallest debt, which leaves everyone's
+   * net position unchanged. Repeats until no loop is left.
    */
-  detectCircularDebts(debts: Debt[]): {
-    circular: Debt[][];
-    remaining: Debt[];
+  cancelCircularDebts(debts: Debt[]): {
+    cycles: DebtCycle[];
+    cancelled: { index: number; amount: number }[]; // Total taken off each input debt
+    remaining: Debt[]; // Debts with something left to pay, amounts reduced
   } {
-    const circles: Debt[][] = [];
-    const used = new Set<number>();
+    const left = debts.map(d => d.amount);
+    const cycles: DebtCycle[] = [];
+
+    for (let loop = this.findCycle(debts, left); loop; loop = this.findCycle(debts, left)) {
+      const amount = Math.min(...loop.map(i => left[i]));
+      loop.forEach(i => {
+        left[i] -= amount;
+      });
 
-    // Build adjacency list
-    const graph = new Map<string, Debt[]>();
+      cycles.push({
+        people: [...loop.map(i => debts[i].from), debts[loop[0]].from],
+        amount,
+        debts: loop,
+      });
+    }
+
+    return {
+      cycles,
+      cancelled: debts
+        .map((debt, index) => ({ index, amount: debt.amount - left[index] }))
+        .filter(c => c.amount > 0),
+      remaining: debts
+        .map((debt, index) => ({ ...debt, amount: left[index] }))
+        .filter(d => d.amount > 0),
+    };
+  }
+
+  /**
+   * Indexes of debts forming a loop, following only debts with something left
+   */
+  private findCycle(debts: Debt[], left: number[]): number[] | null {
+    const outgoing = new Map<string, number[]>();
     debts.forEach((debt, index) => {
-      if (!graph.has(debt.from)) {
-        graph.set(debt.from, []);
+      if (left[index] > 0 && debt.from !== debt.to) {
+        outgoing.set(debt.from, [...(outgoing.get(debt.from) || []), index]);
       }
-      graph.get(debt.from)!.push({ ...debt, index } as any);
     });
 
-    // DFS to find cycles
-    const visited = new Set<string>();
-    const path: Debt[] = [];
+    const state = new Map<string, 'active' | 'done'>();
+    const path: number[] = [];
 
-    const dfs = (person: string, start: string) => {
-      if (visited.has(person)) {
-        if (person === start && path.length >= 3) {
-          circles.push([...path]);
-        }
-        return;
-      }
+    const visit = (person: string): number[] | null => {
+      state.set(person, 'active');
+
+      for (const index of outgoing.get(person) || []) {
+        const next = debts[index].to;
 
-      visited.add(person);
-      const edges = graph.get(person) || [];
+        // Back to someone still on the path: the edges since they left close a loop
+        if (state.get(next) === 'active') {
+          return [...path.slice(path.findIndex(i => debts[i].from === next)), index];
+        }
 
-      for (const edge of edges) {
-        if (!(edge as any).index || !used.has((edge as any).index)) {
-          path.push(edge);
-          dfs(edge.to, start);
+        if (!state.has(next)) {
+          path.push(index);
+          const found = visit(next);
+          if (found) return found;
           path.pop();
         }
       }
 
-      visited.delete(person);
+      state.set(person, 'done');
+      return null;
     };
 
-    // Find all cycles
-    for (const person of graph.keys()) {
-      dfs(person, person);
+    for (const person of Array.from(outgoing.keys())) {
+      if (!state.has(person)) {
+        const found = visit(person);
+        if (found) return found;
+      }
     }
 
-    // Mark circular debts as used
-    circles.forEach(circle => {
-      circle.forEach(debt => {
-        used.add((debt as any).index);
-      });
-    });
-
-    // Return remaining debts
-    const remaining = debts.filter((_, index) => !used.has(index));
-
-    return { circular: circles, remaining };
+    return null;
   }
 
   /**
@@ -20,6 +20,8 @@ export const ReceiptDataSchema = z.object({
   ).optional(),
   tax: z.number().optional(),
   tip: z.number().optional(),
+  serviceCharge: z.number().optional(),
+  discount: z.number().optional(),
   confidence: z.number().min(0).max(1).optional(),
 });
 
@@ -45,10 +47,13 @@ const RECEIPT_EXTRACTION_PROMPT = `You are a precise receipt parser. Analyze the
 5. Individual items with their names and prices (if itemized)
 6. Tax amount (if shown separately)
 7. Tip amount (if applicable)
+8. Service charge (if shown separately)
+9. Discount amount as a positive number (if any)
 
 CRITICAL RULES:
 - Output ONLY valid JSON, no markdown, no code blocks, no explanations
-- Ensure the total matches the sum of items + tax + tip (within small rounding tolerance)
+- Ensure the total matches the sum of items + tax + tip + service charge - discount (within small rounding tolerance)
+- Never list tax, tip, service charge or discounts as items
 - Use standardized date format (YYYY-MM-DD)
 - If you cannot read something clearly, omit it rather than guessing
 - For items, extract as many as visible
@@ -179,7 +184,12 @@ export class ReceiptScannerAgent extends BaseAgent<ReceiptScanInput, ReceiptScan
         return sum + item.price * item.quantity;
       }, 0);
 
-      const calculatedTotal = itemsTotal + (output.tax || 0) + (output.tip || 0);
+      const calculatedTotal =
+        itemsTotal +
+        (output.tax || 0) +
+        (output.tip || 0) +
+        (output.serviceCharge || 0) -
+        (output.discount || 0);
       const difference = Math.abs(output.total - calculatedTotal);
 
       // Allow 5% tolerance for rounding errors
@@ -0,0 +1,388 @@
+'use client'
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+
+interface SessionInfo {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+interface TrustedDevice {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  lastUsedAt: string;
+  expiresAt: string;
+}
+
+interface AccessToken {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+const TOKEN_SCOPES = [
+  { value: 'ledger:read', label: 'Read groups, receipts, debts and payments' },
+  { value: 'expenses:write', label: 'Add receipts and splits' },
+  { value: 'settle', label: 'Record and confirm payments' },
+];
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X/, 'macOS'],
+  [/Windows/, 'Windows'],
+  [/Linux/, 'Linux'],
+];
+
+// "Chrome on macOS" from a user agent string, good enough to recognise a device
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] || 'Browser';
+  const os = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1] || 'unknown OS';
+
+  return `${browser} on ${os}`;
+}
+
+export default function Account() {
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [devices, setDevices] = useState<TrustedDevice[]>([]);
+  const [tokens, setTokens] = useState<AccessToken[]>([]);
+  const [tokenName, setTokenName] = useState('');
+  const [tokenScopes, setTokenScopes] = useState<string[]>(['ledger:read']);
+  const [tokenExpiry, setTokenExpiry] = useState('90');
+  const [newToken, setNewToken] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const router = useRouter();
+
+  useEffect(() => {
+    fetchSessions();
+    fetchTokens();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await fetch('/api/account/sessions');
+      const data = await response.json();
+
+      if (response.ok) {
+        setSessions(data.data.sessions);
+        setDevices(data.data.trustedDevices);
+      } else if (response.status === 401) {
+        router.push('/login');
+      } else {
+        setError(data.error || 'Could not load your sessions');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTokens = async () => {
+    try {
+      const response = await fetch('/api/account/tokens');
+      const data = await response.json();
+
+      if (response.ok) {
+        setTokens(data.data);
+      }
+    } catch (err) {
+      console.error('Error fetching tokens:', err);
+    }
+  };
+
+  const createToken = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setNewToken('');
+    setSaving(true);
+
+    try {
+      const response = await fetch('/api/account/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: tokenName,
+          scopes: tokenScopes,
+          expiresInDays: tokenExpiry ? parseInt(tokenExpiry) : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setNewToken(data.data.token);
+        setTokenName('');
+        fetchTokens();
+      } else {
+        setError(data.error || 'Could not create the token');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleScope = (scope: string) => {
+    setTokenScopes(tokenScopes.includes(scope)
+      ? tokenScopes.filter(s => s !== scope)
+      : [...tokenScopes, scope]);
+  };
+
+  const remove = async (url: string, after: () => void) => {
+    setError('');
+    setSaving(true);
+
+    try {
+      const response = await fetch(url, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (response.ok) {
+        after();
+      } else {
+        setError(data.error || 'Request failed');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const revokeSession = (session: SessionInfo) =>
+    remove(`/api/account/sessions/${session.id}`, () => {
+      if (session.current) {
+        localStorage.removeItem('user');
+        router.push('/login');
+      } else {
+        fetchSessions();
+      }
+    });
+
+  const signOutEverywhere = () => {
+    if (!confirm('Sign out of every device, including this one?')) return;
+    remove('/api/account/sessions', () => {
+      localStorage.removeItem('user');
+      router.push('/login');
+    });
+  };
+
+  if (loading) {
+    return <div className="p-8">Loading...</div>;
+  }
+
+  return (
+    <div className="p-8 max-w-3xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Account</h1>
+        <Link href="/account/security" className="text-blue-600 hover:underline text-sm">
+          Two-factor authentication →
+        </Link>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded">{error}</div>
+      )}
+
+      <div className="bg-white p-6 border rounded-lg shadow">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">Active sessions ({sessions.length})</h2>
+          <button
+            onClick={signOutEverywhere}
+            disabled={saving}
+            className="bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700 disabled:bg-gray-400 text-sm"
+          >
+            Sign out everywhere
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              className="p-3 bg-gray-50 rounded flex justify-between items-center"
+            >
+              <div>
+                <p className="font-medium">
+                  {describeDevice(session.userAgent)}
+                  {session.current && (
+                    <span className="ml-2 text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">
+                      this device
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {session.ipAddress || 'Unknown IP'} · last seen{' '}
+                  {new Date(session.lastSeenAt).toLocaleString()} · signed in{' '}
+                  {new Date(session.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                onClick={() => revokeSession(session)}
+                disabled={saving}
+                className="text-sm bg-gray-200 px-3 py-1 rounded hover:bg-gray-300"
+              >
+                Sign out
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 border rounded-lg shadow">
+        <h2 className="text-xl font-bold mb-2">Trusted devices ({devices.length})</h2>
+        <p className="text-gray-600 mb-4 text-sm">
+          These browsers can sign in without a two-factor code until the date shown.
+        </p>
+
+        {devices.length === 0 ? (
+          <p className="text-gray-500 text-sm">No trusted devices.</p>
+        ) : (
+          <div className="space-y-3">
+            {devices.map((device) => (
+              <div
+                key={device.id}
+                className="p-3 bg-gray-50 rounded flex justify-between items-center"
+              >
+                <div>
+                  <p className="font-medium">{describeDevice(device.userAgent)}</p>
+                  <p className="text-sm text-gray-500">
+                    {device.ipAddress || 'Unknown IP'} · last used{' '}
+                    {new Date(device.lastUsedAt).toLocaleString()} · until{' '}
+                    {new Date(device.expiresAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => remove(`/api/account/devices/${device.id}`, fetchSessions)}
+                  disabled={saving}
+                  className="text-sm bg-gray-200 px-3 py-1 rounded hover:bg-gray-300"
+                >
+                  Forget
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 border rounded-lg shadow">
+        <h2 className="text-xl font-bold mb-2">API tokens ({tokens.length})</h2>
+        <p className="text-gray-600 mb-4 text-sm">
+          Personal access tokens let scripts use the API at /api/v1 as you. See{' '}
+          <a href="/api/v1/openapi.json" className="text-blue-600 hover:underline">
+            the OpenAPI document
+          </a>{' '}
+          for the endpoints.
+        </p>
+
+        {newToken && (
+          <div className="p-3 mb-4 bg-green-50 border border-green-300 rounded">
+            <p className="text-sm text-green-800 mb-2">
+              Copy your new token now. It won&apos;t be shown again.
+            </p>
+            <code className="block p-2 bg-white border rounded text-sm break-all">{newToken}</code>
+          </div>
+        )}
+
+        <form onSubmit={createToken} className="space-y-3 mb-4">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={tokenName}
+              onChange={(e) => setTokenName(e.target.value)}
+              placeholder="Token name, e.g. Budget script"
+              className="flex-1 p-2 border rounded"
+              required
+            />
+            <select
+              value={tokenExpiry}
+              onChange={(e) => setTokenExpiry(e.target.value)}
+              className="p-2 border rounded"
+            >
+              <option value="30">30 days</option>
+              <option value="90">90 days</option>
+              <option value="365">1 year</option>
+              <option value="">Never expires</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            {TOKEN_SCOPES.map((scope) => (
+              <label key={scope.value} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={tokenScopes.includes(scope.value)}
+                  onChange={() => toggleScope(scope.value)}
+                />
+                <code>{scope.value}</code>
+                <span className="text-gray-500">{scope.label}</span>
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={saving || tokenScopes.length === 0}
+            className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:bg-gray-400 text-sm"
+          >
+            Create token
+          </button>
+        </form>
+
+        {tokens.length === 0 ? (
+          <p className="text-gray-500 text-sm">No API tokens.</p>
+        ) : (
+          <div className="space-y-3">
+            {tokens.map((token) => (
+              <div
+                key={token.id}
+                className="p-3 bg-gray-50 rounded flex justify-between items-center"
+              >
+                <div>
+                  <p className="font-medium">
+                    {token.name} <code className="text-xs text-gray-500">{token.prefix}…</code>
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {token.scopes.join(', ')} · last used{' '}
+                    {token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : 'never'} ·{' '}
+                    {token.expiresAt
+                      ? `expires ${new Date(token.expiresAt).toLocaleDateString()}`
+                      : 'never expires'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => remove(`/api/account/tokens/${token.id}`, fetchTokens)}
+                  disabled={saving}
+                  className="text-sm bg-gray-200 px-3 py-1 rounded hover:bg-gray-300"
+                >
+                  Revoke
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
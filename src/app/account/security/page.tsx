@@ -0,0 +1,249 @@
+'use client'
+import { useState, useEffect } from 'react'
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesLeft: number;
+  trustedDevices: number;
+}
+
+interface Setup {
+  secret: string;
+  qrCode: string;
+}
+
+export default function Security() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<Setup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await fetch('/api/auth/two-factor');
+      const data = await response.json();
+
+      if (response.ok) {
+        setStatus(data.data);
+      } else {
+        setError(data.error || 'Could not load your security settings');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Posts to a two-factor endpoint and returns its data, or null after showing the error
+  const request = async (url: string, method: string, body?: Record<string, string>) => {
+    setError('');
+    setSaving(true);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+        return null;
+      }
+      return data;
+    } catch (err) {
+      setError('Network error. Please try again.');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startSetup = async () => {
+    const data = await request('/api/auth/two-factor/setup', 'POST');
+    if (data) {
+      setSetup(data.data);
+      setRecoveryCodes([]);
+    }
+  };
+
+  const enable = async () => {
+    const data = await request('/api/auth/two-factor/enable', 'POST', { code });
+    if (data) {
+      setSetup(null);
+      setCode('');
+      setRecoveryCodes(data.data.recoveryCodes);
+      fetchStatus();
+    }
+  };
+
+  const regenerate = async () => {
+    const data = await request('/api/auth/two-factor/recovery-codes', 'POST', { code });
+    if (data) {
+      setCode('');
+      setRecoveryCodes(data.data.recoveryCodes);
+      fetchStatus();
+    }
+  };
+
+  const disable = async () => {
+    const data = await request('/api/auth/two-factor', 'DELETE', { password, code });
+    if (data) {
+      setCode('');
+      setPassword('');
+      setRecoveryCodes([]);
+      fetchStatus();
+    }
+  };
+
+  if (loading) {
+    return <div className="p-8">Loading...</div>;
+  }
+
+  return (
+    <div className="p-8 max-w-3xl mx-auto space-y-6">
+      <h1 className="text-3xl font-bold">Security</h1>
+
+      {error && (
+        <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded">{error}</div>
+      )}
+
+      {recoveryCodes.length > 0 && (
+        <div className="bg-yellow-50 p-6 border border-yellow-300 rounded-lg">
+          <h2 className="text-xl font-bold mb-2">Recovery codes</h2>
+          <p className="text-gray-700 mb-4">
+            Store these somewhere safe. Each one signs you in once if you lose your phone, and
+            they will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono">
+            {recoveryCodes.map(c => (
+              <span key={c}>{c}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {status && (
+        <div className="bg-white p-6 border rounded-lg shadow space-y-4">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-bold">Two-factor authentication</h2>
+            <span
+              className={`text-sm px-2 py-1 rounded ${
+                status.enabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+              }`}
+            >
+              {status.enabled ? 'On' : 'Off'}
+            </span>
+          </div>
+
+          {!status.enabled && !setup && (
+            <>
+              <p className="text-gray-600">
+                Require a code from an authenticator app when signing in with your password.
+              </p>
+              <button
+                onClick={startSetup}
+                disabled={saving}
+                className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                Set up two-factor authentication
+              </button>
+            </>
+          )}
+
+          {!status.enabled && setup && (
+            <>
+              <p className="text-gray-600">
+                Scan this code with your authenticator app, then enter the 6-digit code it shows.
+              </p>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={setup.qrCode} alt="Two-factor QR code" className="w-48 h-48" />
+              <p className="text-sm text-gray-500">
+                Can&apos;t scan it? Enter this key instead:{' '}
+                <span className="font-mono">{setup.secret}</span>
+              </p>
+              <div className="flex gap-3">
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="123456"
+                  autoComplete="one-time-code"
+                  className="p-2 border rounded w-40"
+                />
+                <button
+                  onClick={enable}
+                  disabled={saving || !code}
+                  className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:bg-gray-400"
+                >
+                  Turn on
+                </button>
+              </div>
+            </>
+          )}
+
+          {status.enabled && (
+            <>
+              <p className="text-gray-600">
+                {status.recoveryCodesLeft} recovery codes left · {status.trustedDevices} trusted
+                devices
+              </p>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Current code</label>
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="123456 or a recovery code"
+                  autoComplete="one-time-code"
+                  className="w-full p-2 border rounded"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Password (to turn two-factor off)
+                </label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full p-2 border rounded"
+                />
+              </div>
+
+              <div className="flex gap-3">
+                <button
+                  onClick={regenerate}
+                  disabled={saving || !code}
+                  className="bg-gray-200 px-4 py-2 rounded hover:bg-gray-300"
+                >
+                  New recovery codes
+                </button>
+                <button
+                  onClick={disable}
+                  disabled={saving || !code || !password}
+                  className="bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700 disabled:bg-gray-400"
+                >
+                  Turn off
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { forgetTrustedDevice } from '@/lib/sessions';
+
+export async function DELETE(_req: NextRequest, { params }: { params: { deviceId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await forgetTrustedDevice(session.user.id, params.deviceId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Trusted device remove error:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { revokeSession } from '@/lib/sessions';
+
+export async function DELETE(_req: NextRequest, { params }: { params: { sessionId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await revokeSession(session.user.id, params.sessionId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Session revoke error:', error);
+    return errorResponse(error);
+  }
+}
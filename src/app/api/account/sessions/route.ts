@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { auth, signOut } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { listSessions, revokeAllSessions } from '@/lib/sessions';
+import { TRUSTED_DEVICE_COOKIE } from '@/lib/two-factor';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const data = await listSessions(session.user.id, session.sessionId);
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Session list error:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Sign out everywhere, this browser included
+ */
+export async function DELETE() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await revokeAllSessions(session.user.id);
+    await signOut({ redirect: false });
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(TRUSTED_DEVICE_COOKIE);
+    return response;
+  } catch (error) {
+    console.error('Session revoke error:', error);
+    return errorResponse(error);
+  }
+}
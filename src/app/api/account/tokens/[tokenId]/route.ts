@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revokeAccessToken } from '@/lib/access-tokens';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+
+export async function DELETE(_req: NextRequest, { params }: { params: { tokenId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await revokeAccessToken(session.user.id, params.tokenId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Token revoke error:', error);
+    return errorResponse(error);
+  }
+}
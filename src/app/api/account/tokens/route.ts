@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAccessToken, listAccessTokens, TOKEN_SCOPES } from '@/lib/access-tokens';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+
+const CreateTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(TOKEN_SCOPES)).min(1),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const tokens = await listAccessTokens(session.user.id);
+
+    return NextResponse.json({ success: true, data: tokens });
+  } catch (error) {
+    console.error('Token list error:', error);
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Issue a personal access token for /api/v1. The raw token is only in this response.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const input = CreateTokenSchema.parse(body);
+
+    const token = await createAccessToken(session.user.id, input);
+
+    return NextResponse.json({ success: true, data: token }, { status: 201 });
+  } catch (error) {
+    console.error('Token create error:', error);
+    return errorResponse(error);
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { auth } from '@/lib/auth';
+import { requireGroupMember } from '@/lib/authz';
 import { EmotionalIntelligenceAgent } from '@/agents/EmotionalIntelligenceAgent';
 import { prisma } from '@/lib/db';
+import { errorResponse } from '@/lib/http';
+import { getGroupBalances } from '@/lib/ledger';
+import { toMajor } from '@/lib/money';
 
 const FairnessAnalysisSchema = z.object({
   groupId: z.string(),
@@ -18,6 +22,8 @@ export async function POST(req: NextRequest) {
     const body = await req.json();
     const { groupId } = FairnessAnalysisSchema.parse(body);
 
+    await requireGroupMember(groupId, session.user.id);
+
     // Fetch group with members
     const group = await prisma.group.findUnique({
       where: { id: groupId },
@@ -32,6 +38,11 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Group not found' }, { status: 404 });
     }
 
+    // Current balances from the ledger, in the group's currency
+    const [ledger] = (await getGroupBalances({ groupIds: [groupId] })).filter(
+      l => l.currency === group.currency
+    );
+
     // Calculate spending patterns for each member
     const patterns = await Promise.all(
       group.members.map(async member => {
@@ -44,19 +55,10 @@ export async function POST(req: NextRequest) {
           _count: true,
         });
 
-        const owed = await prisma.debt.aggregate({
-          where: {
-            debtorId: member.userId,
-            settled: false,
-            split: {
-              receipt: { groupId: groupId },
-            },
-          },
-          _sum: { amount: true },
-        });
+        const balance = ledger?.balances[member.userId] || 0;
 
-        const totalPaid = paid._sum.amount || 0;
-        const totalOwed = owed._sum.amount || 0;
+        const totalPaid = toMajor(paid._sum.amount || 0, group.currency);
+        const totalOwed = toMajor(Math.max(-balance, 0), group.currency);
         const transactionCount = paid._count || 0;
 
         return {
@@ -82,11 +84,6 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ success: true, data: analysis });
   } catch (error) {
     console.error('Fairness analysis error:', error);
-    
-    if (error instanceof z.ZodError) {
-      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
-    }
-
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    return errorResponse(error);
   }
 }
@@ -1,11 +1,26 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { memberGroupsWhere, visibleReceiptsWhere } from '@/lib/authz';
 import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import { loadExchangeRates } from '@/lib/exchange';
+import { errorResponse } from '@/lib/http';
+import { getGroupBalances, outstandingAmount } from '@/lib/ledger';
+import { Money, toMajor } from '@/lib/money';
 
-export async function GET() {
+export async function GET(req: NextRequest) {
   try {
-    // Fetch all receipts with items
+    const user = await requireUser();
+
+    // Everything is aggregated in one reporting currency
+    const reportingCurrency = (req.nextUrl.searchParams.get('currency') || 'USD').toUpperCase();
+    if (!/^[A-Z]{3}$/.test(reportingCurrency)) {
+      return NextResponse.json({ error: 'currency must be a 3-letter code' }, { status: 400 });
+    }
+
+    // Receipts the user can see, with items
     const receipts = await prisma.receipt.findMany({
-      where: { parsed: true },
+      where: { parsed: true, ...visibleReceiptsWhere(user.id) },
       include: {
         uploader: {
           select: { name: true, email: true }
@@ -15,27 +30,65 @@ export async function GET() {
       orderBy: { createdAt: 'desc' }
     });
 
-    // Fetch all groups
+    // The user's groups
     const groups = await prisma.group.findMany({
+      where: memberGroupsWhere(user.id),
       include: {
         receipts: true
       }
     });
 
-    // Fetch all debts
-    const allDebts = await prisma.debt.findMany();
+    // Outstanding balances and payments so far, from the ledger
+    const groupIds = groups.map(g => g.id);
+    const ledgers = await getGroupBalances({ groupIds });
+    const payments = await prisma.ledgerEntry.groupBy({
+      by: ['currency'],
+      // The payer's side of each payment
+      where: { groupId: { in: groupIds }, type: 'payment', amount: { gt: 0 } },
+      _sum: { amount: true },
+    });
+
+    // Convert at the rate on each receipt's date; amounts without a rate are left out
+    // of the totals and reported in missingRates
+    const rates = await loadExchangeRates([
+      reportingCurrency,
+      ...receipts.map(r => r.currency),
+      ...groups.flatMap(g => g.receipts.map(r => r.currency)),
+      ...ledgers.map(l => l.currency),
+      ...payments.map(p => p.currency),
+    ]);
+    const missingRates = new Set<string>();
+    const report = (minor: number, currency: string, date: Date) => {
+      const converted = rates.convert(Money.of(minor, currency), reportingCurrency, date);
+      if (!converted) {
+        missingRates.add(`${currency.toUpperCase()}:${reportingCurrency}`);
+        return 0;
+      }
+      return converted.toMajor();
+    };
+    const receiptTotal = (r: { total: number; currency: string; date: Date }) =>
+      report(r.total, r.currency, r.date);
 
     // Calculate basic stats
     const totalReceipts = receipts.length;
-    const totalSpent = receipts.reduce((sum, r) => sum + (r.total || 0), 0);
+    const totalSpent = receipts.reduce((sum, r) => sum + receiptTotal(r), 0);
     const totalGroups = groups.length;
-    const settledDebts = allDebts.filter(d => d.settled).reduce((sum, d) => sum + d.amount, 0);
-    const pendingDebts = allDebts.filter(d => !d.settled).reduce((sum, d) => sum + d.amount, 0);
+    const now = new Date();
+    const settledDebts = payments.reduce(
+      (sum, p) => sum + report(p._sum.amount || 0, p.currency, now),
+      0
+    );
+    const pendingDebts = ledgers.reduce(
+      (sum, l) => sum + report(outstandingAmount(l), l.currency, now),
+      0
+    );
 
     // Recent receipts for spending chart
     const recentReceipts = receipts.slice(0, 10).map(r => ({
       merchant: r.merchant || 'Unknown',
-      total: r.total || 0,
+      total: receiptTotal(r),
+      originalTotal: toMajor(r.total, r.currency),
+      originalCurrency: r.currency,
       date: r.date.toISOString()
     }));
 
@@ -43,7 +96,7 @@ export async function GET() {
     const spenderMap = new Map<string, number>();
     receipts.forEach(r => {
       const name = r.uploader?.name || r.uploader?.email || 'Unknown';
-      spenderMap.set(name, (spenderMap.get(name) || 0) + (r.total || 0));
+      spenderMap.set(name, (spenderMap.get(name) || 0) + receiptTotal(r));
     });
 
     const topSpenders = Array.from(spenderMap.entries())
@@ -58,7 +111,7 @@ export async function GET() {
         const category = item.category || 'other';
         const current = categoryMap.get(category) || { total: 0, count: 0 };
         categoryMap.set(category, {
-          total: current.total + item.price,
+          total: current.total + report(item.price, r.currency, r.date),
           count: current.count + 1
         });
       });
@@ -73,7 +126,7 @@ export async function GET() {
     const monthlyMap = new Map<string, number>();
     receipts.forEach(r => {
       const month = new Date(r.date).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
-      monthlyMap.set(month, (monthlyMap.get(month) || 0) + (r.total || 0));
+      monthlyMap.set(month, (monthlyMap.get(month) || 0) + receiptTotal(r));
     });
 
     const monthlySpending = Array.from(monthlyMap.entries())
@@ -85,7 +138,7 @@ export async function GET() {
     const groupActivity = groups.map(g => ({
       group: g.name,
       receipts: g.receipts.length,
-      total: g.receipts.reduce((sum, r) => sum + (r.total || 0), 0)
+      total: g.receipts.reduce((sum, r) => sum + receiptTotal(r), 0)
     })).sort((a, b) => b.total - a.total).slice(0, 5);
 
     // Debt status
@@ -95,6 +148,11 @@ export async function GET() {
     };
 
     return NextResponse.json({
+      currency: reportingCurrency,
+      missingRates: Array.from(missingRates).map(pair => {
+        const [from, to] = pair.split(':');
+        return { from, to };
+      }),
       totalReceipts,
       totalSpent,
       totalGroups,
@@ -108,6 +166,7 @@ export async function GET() {
     });
   } catch (error: any) {
     console.error('Analytics error:', error);
+    if (error instanceof ServiceError) return errorResponse(error);
     return NextResponse.json(
       {
         error: 'Failed to fetch analytics',
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requestPasswordReset } from '@/lib/accounts';
+import { errorResponse } from '@/lib/http';
+import { checkRateLimit } from '@/lib/redis';
+
+const ForgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { email } = ForgotPasswordSchema.parse(body);
+
+    const { allowed } = await checkRateLimit(`password-reset:${email.toLowerCase()}`, 3, 15 * 60);
+    if (!allowed) {
+      return NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 });
+    }
+
+    await requestPasswordReset(email);
+
+    // Same answer whether or not the address has an account
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Password reset request error:', error);
+    return errorResponse(error);
+  }
+}
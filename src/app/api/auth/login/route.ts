@@ -1,10 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { signIn, TwoFactorError } from '@/lib/auth';
 import { prisma } from '@/lib/db';
+import { clientInfo } from '@/lib/http';
+import { TRUSTED_DEVICE_COOKIE, trustDevice } from '@/lib/two-factor';
 import bcrypt from 'bcryptjs';
 
+const TWO_FACTOR_ERRORS = {
+  required: { error: 'Enter the code from your authenticator app', status: 401 },
+  invalid: { error: 'Invalid two-factor code', status: 401 },
+  locked: { error: 'Too many attempts, try again later', status: 429 },
+};
+
 export async function POST(req: NextRequest) {
   try {
-    const { email, password } = await req.json();
+    const body = await req.json();
+    const { password, code, trustDevice: rememberDevice } = body;
+    // Stored lowercased at signup
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
 
     if (!email || !password) {
       return NextResponse.json(
@@ -22,6 +34,7 @@ export async function POST(req: NextRequest) {
         name: true,
         passwordHash: true,
         image: true,
+        twoFactorEnabledAt: true,
       },
     });
 
@@ -42,8 +55,20 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Start the session (sets the session cookie) that API routes authorize against.
+    // The authorize callback also runs the two-factor step.
+    try {
+      await signIn('credentials', { email, password, ...(code && { code }), redirect: false });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        const { error: message, status } = TWO_FACTOR_ERRORS[error.code];
+        return NextResponse.json({ error: message, twoFactorRequired: true }, { status });
+      }
+      throw error;
+    }
+
     // Return user data (excluding password hash)
-    return NextResponse.json({
+    const response = NextResponse.json({
       success: true,
       user: {
         id: user.id,
@@ -52,6 +77,20 @@ export async function POST(req: NextRequest) {
         image: user.image,
       },
     });
+
+    // Skip the code on this browser next time
+    if (user.twoFactorEnabledAt && code && rememberDevice) {
+      const device = await trustDevice(user.id, clientInfo(req.headers));
+      response.cookies.set(TRUSTED_DEVICE_COOKIE, device.token, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        expires: device.expiresAt,
+      });
+    }
+
+    return response;
   } catch (error: any) {
     console.error('Login error:', error);
     return NextResponse.json(
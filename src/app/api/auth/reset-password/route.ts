@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { resetPassword } from '@/lib/accounts';
+import { errorResponse } from '@/lib/http';
+
+const ResetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z
+    .string()
+    .min(8, 'Password must be at least 8 characters')
+    .max(72, 'Password must be at most 72 characters'),
+});
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { token, password } = ResetPasswordSchema.parse(body);
+
+    await resetPassword(token, password);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Password reset error:', error);
+    return errorResponse(error);
+  }
+}
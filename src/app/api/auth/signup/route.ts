@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { registerUser } from '@/lib/accounts';
+import { signIn } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+
+const SignupSchema = z.object({
+  email: z.string().email(),
+  password: z
+    .string()
+    .min(8, 'Password must be at least 8 characters')
+    .max(72, 'Password must be at most 72 characters'), // bcrypt ignores anything longer
+  name: z.string().trim().max(100).optional(),
+});
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const input = SignupSchema.parse(body);
+
+    const user = await registerUser(input);
+
+    // Sign the new user straight in, the same way /api/auth/login does
+    await signIn('credentials', { email: user.email, password: input.password, redirect: false });
+
+    return NextResponse.json({ success: true, user }, { status: 201 });
+  } catch (error) {
+    console.error('Signup error:', error);
+    return errorResponse(error);
+  }
+}
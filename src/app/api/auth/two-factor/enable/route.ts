@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { clientInfo, errorResponse } from '@/lib/http';
+import { enableTwoFactor } from '@/lib/two-factor';
+
+const EnableTwoFactorSchema = z.object({
+  code: z.string().min(6),
+});
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { code } = EnableTwoFactorSchema.parse(body);
+
+    const result = await enableTwoFactor(session.user.id, code, clientInfo(req.headers));
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Two-factor enable error:', error);
+    return errorResponse(error);
+  }
+}
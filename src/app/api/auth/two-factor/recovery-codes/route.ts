@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { clientInfo, errorResponse } from '@/lib/http';
+import { regenerateRecoveryCodes } from '@/lib/two-factor';
+
+const RegenerateCodesSchema = z.object({
+  code: z.string().min(1),
+});
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { code } = RegenerateCodesSchema.parse(body);
+
+    const result = await regenerateRecoveryCodes(session.user.id, code, clientInfo(req.headers));
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Recovery code error:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { clientInfo, errorResponse } from '@/lib/http';
+import { disableTwoFactor, getTwoFactorStatus, TRUSTED_DEVICE_COOKIE } from '@/lib/two-factor';
+
+const DisableTwoFactorSchema = z.object({
+  password: z.string().min(1),
+  code: z.string().min(1),
+});
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const status = await getTwoFactorStatus(session.user.id);
+
+    return NextResponse.json({ success: true, data: status });
+  } catch (error) {
+    console.error('Two-factor status error:', error);
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { password, code } = DisableTwoFactorSchema.parse(body);
+
+    await disableTwoFactor(session.user.id, password, code, clientInfo(req.headers));
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(TRUSTED_DEVICE_COOKIE);
+    return response;
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    return errorResponse(error);
+  }
+}
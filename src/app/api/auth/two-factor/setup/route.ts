@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { beginTwoFactorSetup } from '@/lib/two-factor';
+
+/**
+ * Start enrollment: returns the secret and a QR code to scan. Confirm with
+ * POST /api/auth/two-factor/enable.
+ */
+export async function POST() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const setup = await beginTwoFactorSetup(session.user.id);
+
+    return NextResponse.json({ success: true, data: setup });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return errorResponse(error);
+  }
+}
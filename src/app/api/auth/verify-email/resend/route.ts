@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { sendVerificationEmail } from '@/lib/accounts';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { checkRateLimit } from '@/lib/redis';
+
+export async function POST() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { allowed } = await checkRateLimit(`verify-email:${session.user.id}`, 3, 15 * 60);
+    if (!allowed) {
+      return NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 });
+    }
+
+    await sendVerificationEmail(session.user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Verification email error:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyEmail } from '@/lib/accounts';
+import { errorResponse } from '@/lib/http';
+
+const VerifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { token } = VerifyEmailSchema.parse(body);
+
+    const user = await verifyEmail(token);
+
+    return NextResponse.json({ success: true, data: user });
+  } catch (error) {
+    console.error('Email verification error:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { getGroupBalances } from '@/lib/ledger';
+import { toMajor } from '@/lib/money';
+
+/**
+ * Balances replayed from the ledger.
+ *   ?groupId=  every member of a group (or one, with &userId=)
+ *   (none)     the signed-in user in each of their groups
+ *   &asOf=     as they stood at that date/time instead of now
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = req.nextUrl.searchParams;
+    const groupId = params.get('groupId');
+    const userId = params.get('userId');
+    const asOfParam = params.get('asOf');
+
+    const asOf = asOfParam ? new Date(asOfParam) : undefined;
+    if (asOf && isNaN(asOf.getTime())) {
+      return NextResponse.json({ error: 'asOf must be a valid date' }, { status: 400 });
+    }
+
+    const memberships = await prisma.groupMember.findMany({
+      where: { userId: session.user.id },
+      select: { groupId: true, group: { select: { name: true } } },
+    });
+
+    if (groupId && !memberships.some(m => m.groupId === groupId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const ledgers = await getGroupBalances(
+      groupId
+        ? { groupIds: [groupId], userId: userId || undefined }
+        : { groupIds: memberships.map(m => m.groupId), userId: session.user.id },
+      asOf
+    );
+
+    const groupNames = new Map(memberships.map(m => [m.groupId, m.group.name]));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        asOf: (asOf || new Date()).toISOString(),
+        groups: ledgers.map(l => ({
+          groupId: l.groupId,
+          name: groupNames.get(l.groupId),
+          currency: l.currency,
+          balances: Object.fromEntries(
+            Object.entries(l.balances).map(([id, balance]) => [id, toMajor(balance, l.currency)])
+          ),
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Balance fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,11 +1,26 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { memberGroupsWhere, visibleReceiptsWhere } from '@/lib/authz';
 import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import { loadExchangeRates } from '@/lib/exchange';
+import { errorResponse } from '@/lib/http';
+import { getGroupBalances, outstandingAmount } from '@/lib/ledger';
+import { Money, toMajor } from '@/lib/money';
 
-export async function GET() {
+export async function GET(req: NextRequest) {
   try {
-    // Fetch receipts with groups
+    const user = await requireUser();
+
+    // Totals are in one reporting currency, as in /api/analytics/full
+    const reportingCurrency = (req.nextUrl.searchParams.get('currency') || 'USD').toUpperCase();
+    if (!/^[A-Z]{3}$/.test(reportingCurrency)) {
+      return NextResponse.json({ error: 'currency must be a 3-letter code' }, { status: 400 });
+    }
+
+    // Receipts the user can see, with their groups
     const receipts = await prisma.receipt.findMany({
-      where: { parsed: true },
+      where: { parsed: true, ...visibleReceiptsWhere(user.id) },
       include: {
         group: {
           select: { name: true }
@@ -14,26 +29,46 @@ export async function GET() {
       orderBy: { createdAt: 'desc' }
     });
 
-    // Fetch groups
-    const groups = await prisma.group.findMany();
+    // The user's groups
+    const groups = await prisma.group.findMany({ where: memberGroupsWhere(user.id) });
 
-    // Fetch pending debts
-    const debts = await prisma.debt.findMany({
-      where: { settled: false }
-    });
+    // Outstanding balances from the ledger
+    const ledgers = await getGroupBalances({ groupIds: groups.map(g => g.id) });
+
+    // Convert at the rate on each receipt's date; amounts without a rate are left out
+    // of the totals and reported in missingRates
+    const rates = await loadExchangeRates([
+      reportingCurrency,
+      ...receipts.map(r => r.currency),
+      ...ledgers.map(l => l.currency),
+    ]);
+    const missingRates = new Set<string>();
+    const report = (minor: number, currency: string, date: Date) => {
+      const converted = rates.convert(Money.of(minor, currency), reportingCurrency, date);
+      if (!converted) {
+        missingRates.add(`${currency.toUpperCase()}:${reportingCurrency}`);
+        return 0;
+      }
+      return converted.toMajor();
+    };
+    const now = new Date();
 
     // Calculate stats
     const totalReceipts = receipts.length;
     const activeGroups = groups.length;
-    const pendingDebts = debts.reduce((sum, d) => sum + d.amount, 0);
-    const totalSpent = receipts.reduce((sum, r) => sum + (r.total || 0), 0);
+    const pendingDebts = ledgers.reduce(
+      (sum, l) => sum + report(outstandingAmount(l), l.currency, now),
+      0
+    );
+    const totalSpent = receipts.reduce((sum, r) => sum + report(r.total, r.currency, r.date), 0);
 
     // Recent activity (last 5 receipts)
     const recentActivity = receipts.slice(0, 5).map(r => ({
       id: r.id,
       merchant: r.merchant || 'Unknown',
       group: r.group?.name || null,
-      total: r.total || 0,
+      total: toMajor(r.total, r.currency),
+      currency: r.currency,
       date: r.date.toISOString()
     }));
 
@@ -42,10 +77,13 @@ export async function GET() {
       activeGroups,
       pendingDebts,
       totalSpent,
+      currency: reportingCurrency,
+      missingRates: Array.from(missingRates),
       recentActivity
     });
   } catch (error: any) {
     console.error('Dashboard error:', error);
+    if (error instanceof ServiceError) return errorResponse(error);
     return NextResponse.json(
       {
         totalReceipts: 0,
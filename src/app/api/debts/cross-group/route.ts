@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { getCrossGroupBalances, setCrossGroupNetting, settleAcrossGroups } from '@/lib/netting';
+import { PAYMENT_METHODS } from '@/lib/payments';
+
+const NettingPreferenceSchema = z.object({
+  enabled: z.boolean(),
+});
+
+const CrossGroupSettleSchema = z.object({
+  counterpartId: z.string(),
+  currency: z.string().regex(/^[A-Za-z]{3}$/, 'Must be a 3-letter currency code'),
+  amount: z.number().positive(),
+  paymentMethod: z.enum(PAYMENT_METHODS).optional(),
+});
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const balances = await getCrossGroupBalances(session.user.id);
+
+    return NextResponse.json({ success: true, data: balances });
+  } catch (error) {
+    console.error('Cross-group balance error:', error);
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { enabled } = NettingPreferenceSchema.parse(body);
+
+    await setCrossGroupNetting(session.user.id, enabled);
+
+    return NextResponse.json({ success: true, data: { enabled } });
+  } catch (error) {
+    console.error('Cross-group preference error:', error);
+    return errorResponse(error);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const input = CrossGroupSettleSchema.parse(body);
+
+    const result = await settleAcrossGroups(input, session.user.id);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Cross-group settle error:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { ServiceError } from '@/lib/errors';
+import { cancelDebtCycles } from '@/lib/settlements';
+
+const CancelCyclesSchema = z.object({
+  groupId: z.string(),
+});
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { groupId } = CancelCyclesSchema.parse(body);
+
+    const result = await cancelDebtCycles(groupId, session.user.id);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Debt cycle cancel error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
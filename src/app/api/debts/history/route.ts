@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { ServiceError } from '@/lib/errors';
+import { getDebtHistory } from '@/lib/settlements';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const groupId = req.nextUrl.searchParams.get('groupId');
+    if (!groupId) {
+      return NextResponse.json({ error: 'groupId is required' }, { status: 400 });
+    }
+
+    const history = await getDebtHistory(groupId, session.user.id);
+
+    return NextResponse.json({ success: true, data: history });
+  } catch (error) {
+    console.error('Debt history error:', error);
+
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,12 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { auth } from '@/lib/auth';
+import { requireGroupMember } from '@/lib/authz';
 import { DebtOptimizerAgent } from '@/agents/DebtOptimizerAgent';
 import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import { errorResponse } from '@/lib/http';
+import { groupDebtsWhere } from '@/lib/debts';
+import { Money, toMajor } from '@/lib/money';
+import { PAYMENT_METHODS } from '@/lib/payments';
+import { createSettlementPlan, requireNoPendingPayments } from '@/lib/settlement-plans';
 
 const OptimizeDebtsSchema = z.object({
   groupId: z.string(),
+  // Forgive less than the group policy allows; never more
   minimumAmount: z.number().optional(),
+  // Who is willing to pay whom (either direction); omit to allow every pair
+  allowedPairs: z.array(z.object({ from: z.string(), to: z.string() })).optional(),
+  // Methods each member can use; members left out accept any method
+  paymentMethods: z.record(z.array(z.enum(PAYMENT_METHODS))).optional(),
 });
 
 export async function POST(req: NextRequest) {
@@ -17,21 +29,45 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { groupId, minimumAmount } = OptimizeDebtsSchema.parse(body);
+    const { groupId, minimumAmount, allowedPairs, paymentMethods } =
+      OptimizeDebtsSchema.parse(body);
+
+    await requireGroupMember(groupId, session.user.id);
+    await requireNoPendingPayments(groupId);
+
+    const group = await prisma.group.findUnique({
+      where: { id: groupId },
+      select: {
+        currency: true,
+        forgivenessThreshold: true,
+        forgivenessMemberCap: true,
+        members: { select: { userId: true } },
+      },
+    });
+
+    if (!group) {
+      return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+    }
+
+    // The solver adds everyone it is given, so outsiders would end up in the plan
+    const memberIds = new Set(group.members.map(m => m.userId));
+    const outsiders = Array.from(
+      new Set([
+        ...(allowedPairs || []).flatMap(p => [p.from, p.to]),
+        ...Object.keys(paymentMethods || {}),
+      ])
+    ).filter(id => !memberIds.has(id));
+    if (outsiders.length > 0) {
+      throw new ServiceError('Payment constraints can only name members of the group', 400, {
+        userIds: outsiders,
+      });
+    }
 
     // Fetch all unsettled debts for the group
     const debts = await prisma.debt.findMany({
       where: {
+        ...groupDebtsWhere(groupId),
         settled: false,
-        split: {
-          receipt: {
-            groupId: groupId,
-          },
-        },
-      },
-      include: {
-        debtor: true,
-        creditor: true,
       },
     });
 
@@ -45,6 +81,11 @@ export async function POST(req: NextRequest) {
           saved: 0,
           totalAmount: 0,
           balances: {},
+          algorithm: 'exact',
+          optimalityGap: 0,
+          feasible: true,
+          forgiven: [],
+          totalForgiven: 0,
         },
       });
     }
@@ -56,21 +97,67 @@ export async function POST(req: NextRequest) {
       amount: d.amount,
     }));
 
+    // Only balances below the group's forgiveness threshold may be written off
+    const threshold =
+      group.forgivenessThreshold === null
+        ? 0
+        : minimumAmount === undefined
+          ? group.forgivenessThreshold
+          : Math.min(group.forgivenessThreshold, Money.fromMajor(minimumAmount, group.currency).minor);
+
     // Run optimizer agent
     const agent = new DebtOptimizerAgent();
     const optimized = await agent.run({
       debts: debtInput,
-      minimumAmount,
+      minimumAmount: threshold,
+      forgivenessCap: group.forgivenessMemberCap ?? undefined,
+      allowedPairs,
+      paymentMethods,
     }, session.user.id);
 
-    return NextResponse.json({ success: true, data: optimized });
-  } catch (error) {
-    console.error('Debt optimize error:', error);
-    
-    if (error instanceof z.ZodError) {
-      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    if (!optimized.feasible) {
+      return NextResponse.json(
+        {
+          error: 'No settlement plan satisfies the payment constraints',
+          details: optimized.infeasibleReasons,
+        },
+        { status: 422 }
+      );
     }
 
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    // Keep the suggestion so it can be accepted later
+    const plan = await createSettlementPlan(
+      groupId,
+      group.currency,
+      debts.map(d => ({
+        id: d.id,
+        debtorId: d.debtorId,
+        creditorId: d.creditorId,
+        amount: d.amount,
+      })),
+      optimized,
+      session.user.id
+    );
+
+    const major = (minor: number) => toMajor(minor, group.currency);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...optimized,
+        planId: plan.id,
+        currency: group.currency,
+        transactions: optimized.transactions.map(t => ({ ...t, amount: major(t.amount) })),
+        totalAmount: major(optimized.totalAmount),
+        forgiven: optimized.forgiven.map(f => ({ ...f, amount: major(f.amount) })),
+        totalForgiven: major(optimized.totalForgiven),
+        balances: Object.fromEntries(
+          Object.entries(optimized.balances).map(([person, balance]) => [person, major(balance)])
+        ),
+      },
+    });
+  } catch (error) {
+    console.error('Debt optimize error:', error);
+    return errorResponse(error);
   }
 }
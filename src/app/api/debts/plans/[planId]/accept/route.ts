@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { acceptSettlementPlan } from '@/lib/settlement-plans';
+
+export async function POST(_req: NextRequest, { params }: { params: { planId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const plan = await acceptSettlementPlan(params.planId, session.user.id);
+
+    return NextResponse.json({ success: true, data: plan });
+  } catch (error) {
+    console.error('Settlement plan accept error:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { ServiceError } from '@/lib/errors';
+import { approvePlanForgiveness } from '@/lib/settlement-plans';
+
+export async function POST(_req: NextRequest, { params }: { params: { planId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const plan = await approvePlanForgiveness(params.planId, session.user.id);
+
+    return NextResponse.json({ success: true, data: plan });
+  } catch (error) {
+    console.error('Plan forgiveness approval error:', error);
+
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
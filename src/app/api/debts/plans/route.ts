@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { requireGroupMember } from '@/lib/authz';
+import { prisma } from '@/lib/db';
+import { errorResponse } from '@/lib/http';
+import { PAYMENT_HANDLE_SELECT, PaymentHandles, buildPaymentLinks } from '@/lib/payments';
+import { serializeSettlementPlan } from '@/lib/settlement-plans';
+import type { Transaction } from '@/agents/DebtOptimizerAgent';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const groupId = req.nextUrl.searchParams.get('groupId');
+    if (!groupId) {
+      return NextResponse.json({ error: 'groupId is required' }, { status: 400 });
+    }
+
+    await requireGroupMember(groupId, session.user.id);
+
+    const plans = await prisma.settlementPlan.findMany({
+      where: { groupId },
+      include: {
+        debts: {
+          include: { sources: { select: { id: true, amount: true, splitId: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    });
+
+    // Payment links for transfers still to be made: suggested ones in proposed
+    // plans and the open debts of accepted ones
+    const members = await prisma.groupMember.findMany({
+      where: { groupId },
+      select: { user: { select: { id: true, ...PAYMENT_HANDLE_SELECT } } },
+    });
+    const handles = new Map<string, PaymentHandles>(members.map(m => [m.user.id, m.user]));
+    const linksFor = (to: string, amount: number, currency: string) => {
+      const payee = handles.get(to);
+      return payee ? buildPaymentLinks(payee, { amount, currency }) : [];
+    };
+
+    const data = plans.map(plan => {
+      const serialized = serializeSettlementPlan(plan);
+      const transfers = plan.transfers as unknown as Transaction[];
+
+      return {
+        ...serialized,
+        transfers: serialized.transfers.map((t, i) => ({
+          ...t,
+          paymentLinks:
+            plan.status === 'proposed' ? linksFor(t.to, transfers[i].amount, plan.currency) : [],
+        })),
+        debts: serialized.debts?.map((d, i) => ({
+          ...d,
+          paymentLinks: d.settled
+            ? []
+            : linksFor(d.creditorId, plan.debts[i].amount, plan.currency),
+        })),
+      };
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Settlement plan fetch error:', error);
+    return errorResponse(error);
+  }
+}
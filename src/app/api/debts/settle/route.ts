@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { SettleDebtsSchema } from '@/lib/schemas';
+import { settleDebts } from '@/lib/settlements';
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const input = SettleDebtsSchema.parse(body);
+
+    const result = await settleDebts(input, session.user.id);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Debt settle error:', error);
+    return errorResponse(error);
+  }
+}
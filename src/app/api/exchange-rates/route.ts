@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { requireOperator } from '@/lib/authz';
+import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import { parseExchangeRates, saveExchangeRates } from '@/lib/exchange';
+
+const CurrencyCode = z
+  .string()
+  .regex(/^[A-Za-z]{3}$/, 'Must be a 3-letter currency code')
+  .transform(code => code.toUpperCase());
+
+const ManualRateSchema = z.object({
+  base: CurrencyCode,
+  quote: CurrencyCode,
+  rate: z.number().positive(),
+  date: z.coerce.date(),
+});
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const base = req.nextUrl.searchParams.get('base');
+    const quote = req.nextUrl.searchParams.get('quote');
+
+    const rates = await prisma.exchangeRate.findMany({
+      where: {
+        ...(base && { base: base.toUpperCase() }),
+        ...(quote && { quote: quote.toUpperCase() }),
+      },
+      orderBy: [{ date: 'desc' }, { base: 'asc' }, { quote: 'asc' }],
+      take: 500,
+    });
+
+    return NextResponse.json({ success: true, data: rates });
+  } catch (error) {
+    console.error('Exchange rate fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Add rates either as a single manual entry (JSON body)
+ * or as a CSV/JSON file upload (multipart form field "file").
+ * Rates convert every group's receipts, so only operators may change them.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await requireOperator(session.user.id);
+
+    let saved: number;
+
+    if (req.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await req.formData();
+      const file = formData.get('file') as File | null;
+
+      if (!file) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+      }
+
+      const format = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+      let rates;
+      try {
+        rates = parseExchangeRates(await file.text(), format);
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          throw new ServiceError('Exchange rate file is not valid JSON');
+        }
+        throw error;
+      }
+
+      saved = await saveExchangeRates(rates, 'file');
+    } else {
+      const body = await req.json();
+      const rate = ManualRateSchema.parse(body);
+      saved = await saveExchangeRates([rate], 'manual');
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'exchange_rate_import',
+        resource: 'exchange_rates',
+        metadata: { count: saved },
+        success: true,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: { saved } });
+  } catch (error) {
+    console.error('Exchange rate import error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { transferAdmin } from '@/lib/groups';
+import { errorResponse } from '@/lib/http';
+
+const TransferAdminSchema = z.object({
+  userId: z.string(),
+});
+
+export async function POST(req: NextRequest, { params }: { params: { groupId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { userId } = TransferAdminSchema.parse(body);
+
+    const group = await transferAdmin(params.groupId, userId, session.user.id);
+
+    return NextResponse.json({ success: true, data: group });
+  } catch (error) {
+    console.error('Admin transfer error:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { getForgivenessPolicy, setForgivenessPolicy } from '@/lib/forgiveness';
+import { errorResponse } from '@/lib/http';
+
+const ForgivenessPolicySchema = z.object({
+  threshold: z.number().positive().nullable(),
+  memberCap: z.number().positive().nullable().default(null),
+  needsConsent: z.boolean().default(false),
+});
+
+export async function GET(_req: NextRequest, { params }: { params: { groupId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const policy = await getForgivenessPolicy(params.groupId, session.user.id);
+
+    return NextResponse.json({ success: true, data: policy });
+  } catch (error) {
+    console.error('Forgiveness policy fetch error:', error);
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(req: NextRequest, { params }: { params: { groupId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const policy = ForgivenessPolicySchema.parse(body);
+
+    const updated = await setForgivenessPolicy(params.groupId, policy, session.user.id);
+
+    return NextResponse.json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Forgiveness policy update error:', error);
+    return errorResponse(error);
+  }
+}
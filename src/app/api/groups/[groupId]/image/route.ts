@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { updateGroup } from '@/lib/groups';
+import { errorResponse } from '@/lib/http';
+
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+export async function POST(req: NextRequest, { params }: { params: { groupId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const formData = await req.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+    if (!IMAGE_TYPES.includes(file.type)) {
+      return NextResponse.json({ error: 'Image must be PNG, JPEG, WebP or GIF' }, { status: 400 });
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      return NextResponse.json({ error: 'Image must be 2 MB or smaller' }, { status: 400 });
+    }
+
+    // Stored inline like receipt images; in production this would go to S3 or similar
+    const base64 = Buffer.from(await file.arrayBuffer()).toString('base64');
+    const group = await updateGroup(
+      params.groupId,
+      { imageUrl: `data:${file.type};base64,${base64}` },
+      session.user.id
+    );
+
+    return NextResponse.json({ success: true, data: { imageUrl: group.imageUrl } });
+  } catch (error) {
+    console.error('Group image upload error:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { importSplitwiseCsv } from '@/lib/splitwise-import';
+
+const MAX_CSV_LENGTH = 5 * 1024 * 1024;
+
+const SplitwiseImportSchema = z.object({
+  csv: z.string().min(1).max(MAX_CSV_LENGTH),
+  mapping: z.record(z.string(), z.string()).optional(),
+  dryRun: z.boolean().default(true),
+});
+
+/**
+ * Import a Splitwise group export. Previews by default; send dryRun: false to import.
+ */
+export async function POST(req: NextRequest, { params }: { params: { groupId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const input = SplitwiseImportSchema.parse(body);
+
+    const result = await importSplitwiseCsv(params.groupId, input, session.user.id);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Splitwise import error:', error);
+    return errorResponse(error);
+  }
+}
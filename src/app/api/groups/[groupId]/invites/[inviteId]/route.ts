@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { ServiceError } from '@/lib/errors';
+import { revokeInvite } from '@/lib/invites';
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: { groupId: string; inviteId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await revokeInvite(params.groupId, params.inviteId, session.user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Invite revoke error:', error);
+
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { createInvite, listInvites } from '@/lib/invites';
+
+const CreateInviteSchema = z.object({
+  email: z.string().email().optional(),
+  expiresInDays: z.number().int().min(1).max(30).optional(),
+});
+
+export async function GET(_req: NextRequest, { params }: { params: { groupId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const invites = await listInvites(params.groupId, session.user.id);
+
+    return NextResponse.json({ success: true, data: invites });
+  } catch (error) {
+    console.error('Invite list error:', error);
+    return errorResponse(error);
+  }
+}
+
+export async function POST(req: NextRequest, { params }: { params: { groupId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const input = CreateInviteSchema.parse(body);
+
+    const invite = await createInvite({ ...input, groupId: params.groupId }, session.user.id);
+    const baseUrl = process.env.NEXTAUTH_URL || req.nextUrl.origin;
+
+    return NextResponse.json({
+      success: true,
+      data: { ...invite, url: `${baseUrl}/invite/${invite.token}` },
+    });
+  } catch (error) {
+    console.error('Invite create error:', error);
+    return errorResponse(error);
+  }
+}
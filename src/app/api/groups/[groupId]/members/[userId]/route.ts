@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { removeMember } from '@/lib/groups';
+import { errorResponse } from '@/lib/http';
+
+/**
+ * Remove a member (admins), or leave the group when userId is yourself.
+ *   ?reassignTo=  member who takes over an unsettled balance
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { groupId: string; userId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const reassignTo = req.nextUrl.searchParams.get('reassignTo') || undefined;
+    await removeMember(params.groupId, params.userId, session.user.id, reassignTo);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Group member remove error:', error);
+    return errorResponse(error);
+  }
+}
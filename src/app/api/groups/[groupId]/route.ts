@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { deleteGroup, getGroupDetails, updateGroup } from '@/lib/groups';
+import { errorResponse } from '@/lib/http';
+
+const UpdateGroupSchema = z.object({
+  name: z.string().trim().min(1, 'Group name is required').max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  currency: z.string().regex(/^[A-Za-z]{3}$/, 'Must be a 3-letter currency code').optional(),
+  imageUrl: z.string().url().nullable().optional(),
+  archived: z.boolean().optional(),
+});
+
+export async function GET(_req: NextRequest, { params }: { params: { groupId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const group = await getGroupDetails(params.groupId, session.user.id);
+
+    return NextResponse.json({ success: true, data: group });
+  } catch (error) {
+    console.error('Group fetch error:', error);
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: { groupId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const input = UpdateGroupSchema.parse(body);
+
+    const group = await updateGroup(params.groupId, input, session.user.id);
+
+    return NextResponse.json({ success: true, data: group });
+  } catch (error) {
+    console.error('Group update error:', error);
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_req: NextRequest, { params }: { params: { groupId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await deleteGroup(params.groupId, session.user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Group delete error:', error);
+    return errorResponse(error);
+  }
+}
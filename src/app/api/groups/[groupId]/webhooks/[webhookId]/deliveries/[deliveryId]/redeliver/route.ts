@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { redeliver } from '@/lib/webhooks';
+
+/**
+ * Resend a delivery's payload now. Returns the new delivery with its outcome.
+ */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: { groupId: string; webhookId: string; deliveryId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const delivery = await redeliver(
+      params.groupId,
+      params.webhookId,
+      params.deliveryId,
+      session.user.id
+    );
+
+    return NextResponse.json({ success: true, data: delivery });
+  } catch (error) {
+    console.error('Webhook redeliver error:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { listDeliveries } from '@/lib/webhooks';
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { groupId: string; webhookId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const deliveries = await listDeliveries(params.groupId, params.webhookId, session.user.id);
+
+    return NextResponse.json({ success: true, data: deliveries });
+  } catch (error) {
+    console.error('Webhook delivery list error:', error);
+    return errorResponse(error);
+  }
+}
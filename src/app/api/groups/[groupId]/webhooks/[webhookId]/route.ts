@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { deleteWebhook, updateWebhook, WEBHOOK_EVENTS } from '@/lib/webhooks';
+
+const UpdateWebhookSchema = z.object({
+  url: z.string().url().max(2000).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).optional(),
+  active: z.boolean().optional(),
+});
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { groupId: string; webhookId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const input = UpdateWebhookSchema.parse(body);
+
+    const webhook = await updateWebhook(params.groupId, params.webhookId, input, session.user.id);
+
+    return NextResponse.json({ success: true, data: webhook });
+  } catch (error) {
+    console.error('Webhook update error:', error);
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: { groupId: string; webhookId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await deleteWebhook(params.groupId, params.webhookId, session.user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Webhook delete error:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { createWebhook, listWebhooks, WEBHOOK_EVENTS } from '@/lib/webhooks';
+
+const CreateWebhookSchema = z.object({
+  url: z.string().url().max(2000),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  active: z.boolean().optional(),
+});
+
+export async function GET(_req: NextRequest, { params }: { params: { groupId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const webhooks = await listWebhooks(params.groupId, session.user.id);
+
+    return NextResponse.json({ success: true, data: webhooks });
+  } catch (error) {
+    console.error('Webhook list error:', error);
+    return errorResponse(error);
+  }
+}
+
+export async function POST(req: NextRequest, { params }: { params: { groupId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const input = CreateWebhookSchema.parse(body);
+
+    const webhook = await createWebhook(params.groupId, input, session.user.id);
+
+    return NextResponse.json({ success: true, data: webhook }, { status: 201 });
+  } catch (error) {
+    console.error('Webhook create error:', error);
+    return errorResponse(error);
+  }
+}
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { auth, requireUser } from '@/lib/auth';
+import { memberGroupsWhere } from '@/lib/authz';
 import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import { errorResponse } from '@/lib/http';
+import { getGroupBalances, outstandingAmount } from '@/lib/ledger';
+import { toMajor } from '@/lib/money';
 import { z } from 'zod';
 
 const CreateGroupSchema = z.object({
@@ -9,14 +15,20 @@ const CreateGroupSchema = z.object({
 
 export async function POST(req: NextRequest) {
   try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const body = await req.json();
     const validated = CreateGroupSchema.parse(body);
 
-    // Create group in database
+    // Create group in database; its creator is the first admin and can invite others
     const group = await prisma.group.create({
       data: {
         name: validated.name,
         description: validated.description || '',
+        members: { create: { userId: session.user.id, role: 'admin' } },
       },
     });
 
@@ -39,7 +51,11 @@ export async function POST(req: NextRequest) {
 
 export async function GET(req: NextRequest) {
   try {
+    const user = await requireUser();
+
+    // Only the groups the user belongs to
     const groups = await prisma.group.findMany({
+      where: memberGroupsWhere(user.id),
       include: {
         members: {
           include: {
@@ -52,44 +68,50 @@ export async function GET(req: NextRequest) {
             },
           },
         },
-        receipts: {
-          include: {
-            splits: {
-              include: {
-                debts: true,
-              },
-            },
-          },
-        },
+        receipts: true,
       },
       orderBy: {
         createdAt: 'desc',
       },
     });
 
+    const ledgers = await getGroupBalances({ groupIds: groups.map((g) => g.id) });
+
     // Calculate stats for each group
     const groupsWithStats = groups.map((group) => {
+      // Split receipts carry their total converted into the group's currency
       const totalExpenses = group.receipts.reduce(
-        (sum: number, receipt: any) => sum + (receipt.total || 0),
+        (sum: number, receipt: any) =>
+          sum +
+          (receipt.convertedTotal !== null
+            ? toMajor(receipt.convertedTotal, group.currency)
+            : toMajor(receipt.total, receipt.currency)),
         0
       );
 
-      // Get all debts from receipts -> splits -> debts
-      const allDebts = group.receipts.flatMap((receipt: any) =>
-        receipt.splits.flatMap((split: any) => split.debts)
+      // Balances come from the ledger, in the group's current currency
+      const ledger = ledgers.find(
+        (l) => l.groupId === group.id && l.currency === group.currency
+      );
+      const pendingDebts = ledger ? toMajor(outstandingAmount(ledger), group.currency) : 0;
+      const balances = Object.fromEntries(
+        Object.entries(ledger?.balances || {}).map(([userId, balance]) => [
+          userId,
+          toMajor(balance, group.currency),
+        ])
       );
-
-      const pendingDebts = allDebts
-        .filter((debt: any) => !debt.settled)
-        .reduce((sum: number, debt: any) => sum + debt.amount, 0);
 
       return {
         id: group.id,
         name: group.name,
         description: group.description,
+        imageUrl: group.imageUrl,
+        currency: group.currency,
+        archived: group.archivedAt !== null,
         memberCount: group.members.length,
         totalExpenses,
         pendingDebts,
+        balances,
         members: group.members.map((m: any) => m.user),
       };
     });
@@ -97,6 +119,7 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ groups: groupsWithStats });
   } catch (error: any) {
     console.error('Error fetching groups:', error);
+    if (error instanceof ServiceError) return errorResponse(error);
     return NextResponse.json(
       { error: 'Failed to fetch groups' },
       { status: 500 }
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { acceptInvite, getInvite } from '@/lib/invites';
+
+// Anyone holding the link can see which group it is for before signing in
+export async function GET(_req: NextRequest, { params }: { params: { token: string } }) {
+  try {
+    const invite = await getInvite(params.token);
+
+    return NextResponse.json({ success: true, data: invite });
+  } catch (error) {
+    console.error('Invite fetch error:', error);
+    return errorResponse(error);
+  }
+}
+
+export async function POST(_req: NextRequest, { params }: { params: { token: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const member = await acceptInvite(params.token, session.user.id);
+
+    return NextResponse.json({ success: true, data: member });
+  } catch (error) {
+    console.error('Invite accept error:', error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import QRCode from 'qrcode';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { Money } from '@/lib/money';
+import { PAYMENT_METHODS, getPaymentLinks } from '@/lib/payments';
+
+const PaymentQrQuerySchema = z.object({
+  to: z.string(),
+  method: z.enum(PAYMENT_METHODS),
+  amount: z.coerce.number().positive(),
+  currency: z.string().regex(/^[A-Za-z]{3}$/, 'Must be a 3-letter currency code'),
+  note: z.string().max(140).optional(),
+  size: z.coerce.number().int().min(128).max(1024).default(320),
+});
+
+/**
+ * PNG QR code for one payment link, for scanning with a phone
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { to, method, amount, currency, note, size } = PaymentQrQuerySchema.parse(
+      Object.fromEntries(req.nextUrl.searchParams)
+    );
+    const money = Money.fromMajor(amount, currency);
+
+    const links = await getPaymentLinks(
+      to,
+      { amount: money.minor, currency: money.currency, note },
+      session.user.id
+    );
+    const link = links.find(l => l.method === method);
+
+    if (!link) {
+      return NextResponse.json(
+        { error: `No ${method} payment link available for this payee and currency` },
+        { status: 404 }
+      );
+    }
+
+    // EPC QR codes must use error correction level M
+    const image = await QRCode.toBuffer(link.qrPayload, {
+      type: 'png',
+      width: size,
+      errorCorrectionLevel: 'M',
+      margin: 2,
+    });
+
+    return new NextResponse(new Uint8Array(image), {
+      headers: {
+        'Content-Type': 'image/png',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Payment QR error:', error);
+    return errorResponse(error);
+  }
+}
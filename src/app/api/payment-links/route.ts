@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { Money } from '@/lib/money';
+import { getPaymentLinks } from '@/lib/payments';
+
+const PaymentLinkQuerySchema = z.object({
+  to: z.string(),
+  amount: z.coerce.number().positive(),
+  currency: z.string().regex(/^[A-Za-z]{3}$/, 'Must be a 3-letter currency code'),
+  note: z.string().max(140).optional(),
+});
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { to, amount, currency, note } = PaymentLinkQuerySchema.parse(
+      Object.fromEntries(req.nextUrl.searchParams)
+    );
+    const money = Money.fromMajor(amount, currency);
+
+    const links = await getPaymentLinks(
+      to,
+      { amount: money.minor, currency: money.currency, note },
+      session.user.id
+    );
+
+    return NextResponse.json({ success: true, data: links });
+  } catch (error) {
+    console.error('Payment link error:', error);
+    return errorResponse(error);
+  }
+}
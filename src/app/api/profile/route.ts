@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { errorResponse } from '@/lib/http';
+import { PAYMENT_HANDLE_SELECT } from '@/lib/payments';
+
+const PROFILE_SELECT = { id: true, email: true, emailVerified: true, image: true, ...PAYMENT_HANDLE_SELECT } as const;
+
+// Empty strings clear a handle
+const handle = (pattern: RegExp, message: string) =>
+  z
+    .string()
+    .trim()
+    .transform(value => value.replace(/^[@$]/, ''))
+    .refine(value => value === '' || pattern.test(value), message)
+    .transform(value => value || null)
+    .optional();
+
+const UpdateProfileSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  venmoHandle: handle(/^[A-Za-z0-9_-]{5,30}$/, 'Invalid Venmo username'),
+  paypalMeHandle: handle(/^[A-Za-z0-9]{1,20}$/, 'Invalid PayPal.me name'),
+  cashtag: handle(/^[A-Za-z][A-Za-z0-9]{0,19}$/, 'Invalid $Cashtag'),
+  iban: handle(/^[A-Z]{2}\d{2}[A-Z0-9 ]{10,36}$/i, 'Invalid IBAN'),
+  bic: handle(/^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/i, 'Invalid BIC'),
+});
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: PROFILE_SELECT,
+    });
+
+    return NextResponse.json({ success: true, data: user });
+  } catch (error) {
+    console.error('Profile fetch error:', error);
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const data = UpdateProfileSchema.parse(body);
+
+    const user = await prisma.user.update({
+      where: { id: session.user.id },
+      data: {
+        ...data,
+        iban: data.iban?.replace(/\s+/g, '').toUpperCase() ?? data.iban,
+        bic: data.bic?.toUpperCase() ?? data.bic,
+      },
+      select: PROFILE_SELECT,
+    });
+
+    return NextResponse.json({ success: true, data: user });
+  } catch (error) {
+    console.error('Profile update error:', error);
+    return errorResponse(error);
+  }
+}
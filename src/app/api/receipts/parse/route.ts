@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/db';
-import { auth } from '@/lib/auth';
+import { requireUser } from '@/lib/auth';
+import { ServiceError } from '@/lib/errors';
+import { errorResponse } from '@/lib/http';
 import { ReceiptScannerAgent } from '@/agents/ReceiptScannerAgent';
 import { checkRateLimit } from '@/lib/redis';
+import { Money } from '@/lib/money';
+import { serializeApiReceipt } from '@/lib/public-api';
+import { serializeReceipt } from '@/lib/receipts';
+import { emitWebhookEvent } from '@/lib/webhooks';
 
 const ParseReceiptSchema = z.object({
   receiptId: z.string(),
@@ -11,28 +17,7 @@ const ParseReceiptSchema = z.object({
 
 export async function POST(req: NextRequest) {
   try {
-    // Check authentication - allow demo user in development
-    const session = await auth();
-    let userId = session?.user?.id;
-
-    // If no session, use demo user for development
-    if (!userId) {
-      let demoUser = await prisma.user.findUnique({
-        where: { email: 'alice@example.com' },
-      });
-
-      if (!demoUser) {
-        demoUser = await prisma.user.create({
-          data: {
-            email: 'demo@example.com',
-            name: 'Demo User',
-            passwordHash: 'demo-hash',
-          },
-        });
-      }
-
-      userId = demoUser.id;
-    }
+    const { id: userId } = await requireUser();
 
     // Rate limiting
     const { allowed, remaining } = await checkRateLimit(userId, 10, 60);
@@ -56,11 +41,15 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Receipt not found' }, { status: 404 });
     }
 
-    // Authorization check - skip in development if using demo user
-    if (session?.user?.id && receipt.uploadedBy !== session.user.id) {
+    // Only the uploader can have a receipt parsed
+    if (receipt.uploadedBy !== userId) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
+    if (!receipt.imageUrl) {
+      return NextResponse.json({ error: 'Receipt has no image to parse' }, { status: 400 });
+    }
+
     // Run scanner agent
     let parsed;
 
@@ -102,8 +91,8 @@ export async function POST(req: NextRequest) {
           { name: 'Item 1', price: parseFloat((subtotal * 0.4).toFixed(2)), quantity: 1, category: 'food' },
           { name: 'Item 2', price: parseFloat((subtotal * 0.35).toFixed(2)), quantity: 1, category: 'food' },
           { name: 'Item 3', price: parseFloat((subtotal * 0.25).toFixed(2)), quantity: 1, category: 'beverage' },
-          { name: 'Tax', price: tax, quantity: 1, category: 'tax' },
         ],
+        tax,
         confidence: 0.85,
       };
 
@@ -113,6 +102,11 @@ export async function POST(req: NextRequest) {
       parsed = await agent.run({ imageUrl: receipt.imageUrl }, userId);
     }
 
+    // Store amounts as minor units of the receipt's currency
+    const currency = parsed.currency || receipt.currency;
+    const toMinor = (amount: number) => Money.fromMajor(amount, currency).minor;
+    const optionalMinor = (amount?: number) => (amount === undefined ? undefined : toMinor(amount));
+
     // Update database
     const updated = await prisma.receipt.update({
       where: { id: receiptId },
@@ -120,13 +114,18 @@ export async function POST(req: NextRequest) {
         parsed: true,
         parsedData: parsed as any,
         merchant: parsed.merchant,
-        total: parsed.total,
+        total: toMinor(parsed.total),
         date: new Date(parsed.date),
+        currency,
         confidence: parsed.confidence,
+        tax: optionalMinor(parsed.tax),
+        tip: optionalMinor(parsed.tip),
+        serviceCharge: optionalMinor(parsed.serviceCharge),
+        discount: optionalMinor(parsed.discount),
         items: {
           create: (parsed.items || []).map(item => ({
             name: item.name,
-            price: item.price,
+            price: toMinor(item.price),
             quantity: item.quantity || 1,
             category: item.category,
           })),
@@ -135,14 +134,16 @@ export async function POST(req: NextRequest) {
       include: { items: true },
     });
 
-    return NextResponse.json({ success: true, data: updated });
+    await emitWebhookEvent(updated.groupId, 'receipt.parsed', serializeApiReceipt(updated));
+
+    return NextResponse.json({ success: true, data: serializeReceipt(updated) });
   } catch (error: any) {
     console.error('Receipt parse error:', error);
     console.error('Error stack:', error?.stack);
     console.error('Error message:', error?.message);
 
-    if (error instanceof z.ZodError) {
-      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    if (error instanceof z.ZodError || error instanceof ServiceError) {
+      return errorResponse(error);
     }
 
     return NextResponse.json({
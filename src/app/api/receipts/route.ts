@@ -1,10 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { requireGroupMember, visibleReceiptsWhere } from '@/lib/authz';
 import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import { requireActiveGroup } from '@/lib/groups';
+import { errorResponse } from '@/lib/http';
+import { serializeReceipt } from '@/lib/receipts';
 
 export async function GET() {
   try {
-    // Fetch all receipts
+    const user = await requireUser();
+
+    // Receipts the user uploaded or that belong to their groups
     const receipts = await prisma.receipt.findMany({
+      where: visibleReceiptsWhere(user.id),
       include: {
         items: true,
         uploader: {
@@ -20,9 +29,10 @@ export async function GET() {
       },
     });
 
-    return NextResponse.json({ receipts });
+    return NextResponse.json({ receipts: receipts.map(serializeReceipt) });
   } catch (error: any) {
     console.error('Error fetching receipts:', error);
+    if (error instanceof ServiceError) return errorResponse(error);
     return NextResponse.json(
       { error: 'Failed to fetch receipts' },
       { status: 500 }
@@ -32,27 +42,20 @@ export async function GET() {
 
 export async function POST(req: NextRequest) {
   try {
+    const user = await requireUser();
+
     const formData = await req.formData();
     const file = formData.get('file') as File;
+    const groupId = formData.get('groupId');
 
     if (!file) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 });
     }
 
-    // Get or create a demo user for development
-    let demoUser = await prisma.user.findUnique({
-      where: { email: 'alice@example.com' },
-    });
-
-    // If no users exist (database not seeded), create one
-    if (!demoUser) {
-      demoUser = await prisma.user.create({
-        data: {
-          email: 'demo@example.com',
-          name: 'Demo User',
-          passwordHash: 'demo-hash',
-        },
-      });
+    // Receipts can only be filed under a group the uploader belongs to
+    if (typeof groupId === 'string' && groupId) {
+      await requireGroupMember(groupId, user.id);
+      await requireActiveGroup(groupId);
     }
 
     // For now, we'll use a data URL as the image URL
@@ -69,7 +72,8 @@ export async function POST(req: NextRequest) {
         total: 0,
         date: new Date(),
         parsed: false,
-        uploadedBy: demoUser.id,
+        uploadedBy: user.id,
+        groupId: typeof groupId === 'string' && groupId ? groupId : undefined,
       },
     });
 
@@ -82,6 +86,7 @@ export async function POST(req: NextRequest) {
     });
   } catch (error: any) {
     console.error('Error uploading receipt:', error);
+    if (error instanceof ServiceError) return errorResponse(error);
     return NextResponse.json(
       { error: error.message || 'Failed to upload receipt' },
       { status: 500 }
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { visibleReceiptsWhere } from '@/lib/authz';
+import { prisma } from '@/lib/db';
+import { errorResponse } from '@/lib/http';
+import { CreateSplitSchema } from '@/lib/schemas';
+import { createItemizedSplit, createModeSplit, getReceiptSplits } from '@/lib/splits';
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const input = CreateSplitSchema.parse(body);
+
+    const splits =
+      input.mode === 'itemized'
+        ? await createItemizedSplit(input, session.user.id)
+        : await createModeSplit(input, session.user.id);
+
+    return NextResponse.json({ success: true, data: splits });
+  } catch (error) {
+    console.error('Split create error:', error);
+    return errorResponse(error);
+  }
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const receiptId = req.nextUrl.searchParams.get('receiptId');
+    if (!receiptId) {
+      return NextResponse.json({ error: 'receiptId is required' }, { status: 400 });
+    }
+
+    // Receipts the user can't see are reported as missing
+    const receipt = await prisma.receipt.findFirst({
+      where: { id: receiptId, ...visibleReceiptsWhere(session.user.id) },
+      select: { id: true },
+    });
+
+    if (!receipt) {
+      return NextResponse.json({ error: 'Receipt not found' }, { status: 404 });
+    }
+
+    const splits = await getReceiptSplits(receiptId);
+
+    return NextResponse.json({ success: true, data: splits });
+  } catch (error) {
+    console.error('Split fetch error:', error);
+    return errorResponse(error);
+  }
+}
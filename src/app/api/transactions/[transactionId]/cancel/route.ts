@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { ServiceError } from '@/lib/errors';
+import { cancelTransaction } from '@/lib/transactions';
+
+export async function POST(_req: NextRequest, { params }: { params: { transactionId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const transaction = await cancelTransaction(params.transactionId, session.user.id);
+
+    return NextResponse.json({ success: true, data: transaction });
+  } catch (error) {
+    console.error('Payment cancel error:', error);
+
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { ServiceError } from '@/lib/errors';
+import { disputeTransaction } from '@/lib/transactions';
+
+const DisputeSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+export async function POST(req: NextRequest, { params }: { params: { transactionId: string } }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { reason } = DisputeSchema.parse(body);
+
+    const transaction = await disputeTransaction(params.transactionId, reason, session.user.id);
+
+    return NextResponse.json({ success: true, data: transaction });
+  } catch (error) {
+    console.error('Payment dispute error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+
+    if (error instanceof ServiceError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth';
+import { errorResponse } from '@/lib/http';
+import { listTransactions } from '@/lib/transactions';
+
+const ListTransactionsSchema = z.object({
+  groupId: z.string().optional(),
+  status: z.enum(['pending', 'completed', 'failed', 'cancelled']).optional(),
+});
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const filter = ListTransactionsSchema.parse(Object.fromEntries(req.nextUrl.searchParams));
+    const transactions = await listTransactions(session.user.id, filter);
+
+    return NextResponse.json({ success: true, data: transactions });
+  } catch (error) {
+    console.error('Transaction fetch error:', error);
+    return errorResponse(error);
+  }
+}
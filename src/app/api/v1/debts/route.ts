@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server';
+import { requireGroupMember } from '@/lib/authz';
+import { prisma } from '@/lib/db';
+import { groupDebtsWhere } from '@/lib/debts';
+import {
+  API_DEBT_INCLUDE,
+  apiErrorResponse,
+  pageArgs,
+  pageResponse,
+  requireApiToken,
+  serializeApiDebt,
+} from '@/lib/public-api';
+import { ListDebtsQuerySchema } from '@/lib/schemas';
+
+/**
+ * The caller's own debts, or with groupId every debt in that group
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = await requireApiToken(req, 'ledger:read');
+    const query = ListDebtsQuerySchema.parse(Object.fromEntries(req.nextUrl.searchParams));
+
+    if (query.groupId) {
+      await requireGroupMember(query.groupId, userId);
+    }
+
+    const debts = await prisma.debt.findMany({
+      where: {
+        AND: [
+          query.groupId
+            ? groupDebtsWhere(query.groupId)
+            : { OR: [{ debtorId: userId }, { creditorId: userId }] },
+          { settled: query.settled === 'true' },
+        ],
+      },
+      include: API_DEBT_INCLUDE,
+      ...pageArgs(query),
+    });
+
+    return pageResponse(debts, query, serializeApiDebt);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { apiErrorResponse, apiResponse, requireApiToken } from '@/lib/public-api';
+import { SettleDebtsSchema } from '@/lib/schemas';
+import { settleDebts } from '@/lib/settlements';
+
+/**
+ * Record a payment; it settles debts once the recipient confirms it
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = await requireApiToken(req, 'settle');
+
+    const body = await req.json();
+    const input = SettleDebtsSchema.parse(body);
+
+    const result = await settleDebts(input, userId);
+
+    return apiResponse(result, 201);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { getGroupDetails } from '@/lib/groups';
+import {
+  apiErrorResponse,
+  apiResponse,
+  requireApiToken,
+  serializeApiGroup,
+} from '@/lib/public-api';
+
+export async function GET(req: NextRequest, { params }: { params: { groupId: string } }) {
+  try {
+    const { userId } = await requireApiToken(req, 'ledger:read');
+
+    const group = await getGroupDetails(params.groupId, userId);
+
+    return apiResponse({
+      ...serializeApiGroup(group),
+      members: group.members.map(m => ({
+        userId: m.userId,
+        name: m.user.name,
+        email: m.user.email,
+        role: m.role,
+        balances: m.balances,
+      })),
+    });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server';
+import { memberGroupsWhere } from '@/lib/authz';
+import { prisma } from '@/lib/db';
+import {
+  apiErrorResponse,
+  pageArgs,
+  pageResponse,
+  requireApiToken,
+  serializeApiGroup,
+} from '@/lib/public-api';
+import { PageQuerySchema } from '@/lib/schemas';
+
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = await requireApiToken(req, 'ledger:read');
+    const query = PageQuerySchema.parse(Object.fromEntries(req.nextUrl.searchParams));
+
+    const groups = await prisma.group.findMany({
+      where: memberGroupsWhere(userId),
+      ...pageArgs(query),
+    });
+
+    return pageResponse(groups, query, serializeApiGroup);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,9 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateOpenApiDocument } from '@/lib/openapi';
+
+/**
+ * The v1 OpenAPI document. Public, so clients can be generated without a token.
+ */
+export async function GET(req: NextRequest) {
+  return NextResponse.json(generateOpenApiDocument(`${req.nextUrl.origin}/api/v1`));
+}
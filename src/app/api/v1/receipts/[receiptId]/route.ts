@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { visibleReceiptsWhere } from '@/lib/authz';
+import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import {
+  apiErrorResponse,
+  apiResponse,
+  requireApiToken,
+  serializeApiReceipt,
+} from '@/lib/public-api';
+
+export async function GET(req: NextRequest, { params }: { params: { receiptId: string } }) {
+  try {
+    const { userId } = await requireApiToken(req, 'ledger:read');
+
+    const receipt = await prisma.receipt.findFirst({
+      where: { id: params.receiptId, ...visibleReceiptsWhere(userId) },
+      include: { items: true },
+    });
+
+    if (!receipt) {
+      throw new ServiceError('Receipt not found', 404);
+    }
+
+    return apiResponse(serializeApiReceipt(receipt));
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
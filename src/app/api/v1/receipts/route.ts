@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { visibleReceiptsWhere } from '@/lib/authz';
+import { prisma } from '@/lib/db';
+import {
+  apiErrorResponse,
+  apiResponse,
+  pageArgs,
+  pageResponse,
+  requireApiToken,
+  serializeApiReceipt,
+} from '@/lib/public-api';
+import { createReceipt } from '@/lib/receipts';
+import { CreateReceiptSchema, ListReceiptsQuerySchema } from '@/lib/schemas';
+
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = await requireApiToken(req, 'ledger:read');
+    const query = ListReceiptsQuerySchema.parse(Object.fromEntries(req.nextUrl.searchParams));
+
+    const receipts = await prisma.receipt.findMany({
+      where: {
+        AND: [visibleReceiptsWhere(userId), query.groupId ? { groupId: query.groupId } : {}],
+      },
+      include: { items: true },
+      ...pageArgs(query),
+    });
+
+    return pageResponse(receipts, query, serializeApiReceipt);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = await requireApiToken(req, 'expenses:write');
+
+    const body = await req.json();
+    const input = CreateReceiptSchema.parse(body);
+
+    const receipt = await createReceipt(input, userId);
+
+    return apiResponse(serializeApiReceipt(receipt), 201);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server';
+import { visibleReceiptsWhere } from '@/lib/authz';
+import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import {
+  apiErrorResponse,
+  apiResponse,
+  requireApiToken,
+  serializeApiSplit,
+} from '@/lib/public-api';
+import { CreateSplitSchema, ListSplitsQuerySchema } from '@/lib/schemas';
+import { createItemizedSplit, createModeSplit, getReceiptSplits } from '@/lib/splits';
+
+/**
+ * A receipt's splits. Not paginated: a receipt only ever has a handful.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = await requireApiToken(req, 'ledger:read');
+    const { receiptId } = ListSplitsQuerySchema.parse(Object.fromEntries(req.nextUrl.searchParams));
+
+    const receipt = await prisma.receipt.findFirst({
+      where: { id: receiptId, ...visibleReceiptsWhere(userId) },
+      select: { id: true },
+    });
+
+    if (!receipt) {
+      throw new ServiceError('Receipt not found', 404);
+    }
+
+    const splits = await getReceiptSplits(receiptId);
+
+    return apiResponse(splits.map(serializeApiSplit));
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { userId } = await requireApiToken(req, 'expenses:write');
+
+    const body = await req.json();
+    const input = CreateSplitSchema.parse(body);
+
+    const splits =
+      input.mode === 'itemized'
+        ? await createItemizedSplit(input, userId)
+        : await createModeSplit(input, userId);
+
+    return apiResponse(splits.map(serializeApiSplit), 201);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
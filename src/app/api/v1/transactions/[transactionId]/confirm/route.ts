@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server';
+import { apiErrorResponse, apiResponse, requireApiToken } from '@/lib/public-api';
+import { confirmTransaction } from '@/lib/transactions';
+
+/**
+ * Recipient confirms a payment arrived, settling the debts it pays
+ */
+export async function POST(req: NextRequest, { params }: { params: { transactionId: string } }) {
+  try {
+    const { userId } = await requireApiToken(req, 'settle');
+
+    // Already serialized, with the amount in major units
+    const transaction = await confirmTransaction(params.transactionId, userId);
+
+    return apiResponse(transaction);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db';
+import { apiErrorResponse, pageArgs, pageResponse, requireApiToken } from '@/lib/public-api';
+import { ListTransactionsQuerySchema } from '@/lib/schemas';
+import { serializeTransaction } from '@/lib/transactions';
+
+/**
+ * Payments the caller sent or received
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = await requireApiToken(req, 'ledger:read');
+    const query = ListTransactionsQuerySchema.parse(Object.fromEntries(req.nextUrl.searchParams));
+
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        OR: [{ fromUserId: userId }, { toUserId: userId }],
+        ...(query.groupId && { groupId: query.groupId }),
+        ...(query.status && { status: query.status }),
+      },
+      ...pageArgs(query),
+    });
+
+    return pageResponse(transactions, query, serializeTransaction);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,233 @@
+'use client'
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+
+interface Member {
+  userId: string;
+  user: { id: string; name: string | null; email: string };
+}
+
+interface ImportColumn {
+  name: string;
+  userId: string | null;
+  matchedBy: 'mapping' | 'email' | 'name' | null;
+}
+
+interface ImportRow {
+  line: number;
+  date: string;
+  description: string;
+  kind: 'expense' | 'payment';
+  cost: number;
+  currency: string;
+  status: 'new' | 'imported' | 'duplicate' | 'skipped' | 'error';
+  message?: string;
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  columns: ImportColumn[];
+  rows: ImportRow[];
+  summary: Record<ImportRow['status'], number>;
+}
+
+const STATUS_STYLES: Record<ImportRow['status'], string> = {
+  new: 'bg-blue-100 text-blue-700',
+  imported: 'bg-green-100 text-green-700',
+  duplicate: 'bg-gray-200 text-gray-700',
+  skipped: 'bg-gray-200 text-gray-700',
+  error: 'bg-red-100 text-red-700',
+};
+
+export default function SplitwiseImport({ params }: { params: { groupId: string } }) {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [csv, setCsv] = useState('');
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch(`/api/groups/${params.groupId}`)
+      .then(response => response.json())
+      .then(data => setMembers(data.data?.members || []))
+      .catch(() => setMembers([]));
+  }, [params.groupId]);
+
+  const submit = async (dryRun: boolean, content = csv, columns = mapping) => {
+    setError('');
+    setWorking(true);
+
+    try {
+      const response = await fetch(`/api/groups/${params.groupId}/import/splitwise`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv: content, mapping: columns, dryRun }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setResult(data.data);
+      } else {
+        setError(data.error || 'Import failed');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    setCsv(content);
+    setMapping({});
+    setResult(null);
+    submit(true, content, {});
+  };
+
+  const mapColumn = (column: string, userId: string) => {
+    const next = { ...mapping };
+    if (userId) {
+      next[column] = userId;
+    } else {
+      delete next[column];
+    }
+    setMapping(next);
+    submit(true, csv, next);
+  };
+
+  const importRows = () => {
+    if (!result) return;
+    if (!confirm(`Import ${result.summary.new} rows into this group?`)) return;
+    submit(false);
+  };
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Import from Splitwise</h1>
+        <Link
+          href={`/groups/${params.groupId}/settings`}
+          className="text-blue-600 hover:underline text-sm"
+        >
+          ← Back to Settings
+        </Link>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded">{error}</div>
+      )}
+
+      <div className="bg-white p-6 border rounded-lg shadow space-y-3">
+        <p className="text-gray-600 text-sm">
+          In Splitwise, open the group and choose <em>Export as spreadsheet</em>. Each expense
+          becomes a receipt without an image, split by the amounts Splitwise recorded. Payments
+          are brought over so balances match. Rows imported before are skipped, so the same
+          file can be imported again safely.
+        </p>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          disabled={working}
+        />
+      </div>
+
+      {working && <p className="text-gray-500">Working...</p>}
+
+      {result && (
+        <>
+          <div className="bg-white p-6 border rounded-lg shadow">
+            <h2 className="text-xl font-bold mb-4">People</h2>
+            <div className="space-y-2">
+              {result.columns.map((column) => (
+                <div key={column.name} className="flex justify-between items-center text-sm">
+                  <span className="font-medium">{column.name}</span>
+                  <div className="flex items-center gap-2">
+                    {column.matchedBy && column.matchedBy !== 'mapping' && (
+                      <span className="text-gray-500">matched by {column.matchedBy}</span>
+                    )}
+                    <select
+                      value={mapping[column.name] || column.userId || ''}
+                      onChange={(e) => mapColumn(column.name, e.target.value)}
+                      disabled={result.dryRun === false || working}
+                      className={`p-1 border rounded ${column.userId ? '' : 'border-red-400'}`}
+                    >
+                      <option value="">No match</option>
+                      {members.map(m => (
+                        <option key={m.userId} value={m.userId}>
+                          {m.user.name || m.user.email}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white p-6 border rounded-lg shadow">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold">
+                {result.dryRun ? 'Preview' : 'Result'}
+              </h2>
+              <p className="text-sm text-gray-600">
+                {Object.entries(result.summary)
+                  .filter(([, count]) => count > 0)
+                  .map(([status, count]) => `${count} ${status}`)
+                  .join(' · ')}
+              </p>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">Date</th>
+                  <th>Description</th>
+                  <th className="text-right">Cost</th>
+                  <th className="pl-4">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.rows.map((row) => (
+                  <tr key={row.line} className="border-b last:border-0">
+                    <td className="py-2 whitespace-nowrap">{row.date}</td>
+                    <td>
+                      {row.description}
+                      {row.kind === 'payment' && (
+                        <span className="ml-2 text-xs text-gray-500">payment</span>
+                      )}
+                    </td>
+                    <td className="text-right whitespace-nowrap">
+                      {row.cost.toFixed(2)} {row.currency}
+                    </td>
+                    <td className="pl-4">
+                      <span className={`text-xs px-2 py-0.5 rounded ${STATUS_STYLES[row.status]}`}>
+                        {row.status}
+                      </span>
+                      {row.message && (
+                        <span className="ml-2 text-xs text-gray-500">{row.message}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {result.dryRun && (
+              <button
+                onClick={importRows}
+                disabled={working || result.summary.new === 0}
+                className="mt-4 bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                Import {result.summary.new} rows
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,367 @@
+'use client'
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+
+interface Member {
+  userId: string;
+  role: string;
+  user: { id: string; name: string | null; email: string };
+  balances: { currency: string; amount: number }[];
+}
+
+interface GroupDetails {
+  id: string;
+  name: string;
+  description: string | null;
+  imageUrl: string | null;
+  currency: string;
+  archived: boolean;
+  members: Member[];
+}
+
+export default function GroupSettings({ params }: { params: { groupId: string } }) {
+  const [group, setGroup] = useState<GroupDetails | null>(null);
+  const [userId, setUserId] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [currency, setCurrency] = useState('');
+  const [reassignTo, setReassignTo] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const router = useRouter();
+
+  useEffect(() => {
+    fetchGroup();
+    fetch('/api/profile')
+      .then(response => response.json())
+      .then(data => setUserId(data.data?.id || ''))
+      .catch(() => setUserId(''));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [params.groupId]);
+
+  const fetchGroup = async () => {
+    try {
+      const response = await fetch(`/api/groups/${params.groupId}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setGroup(data.data);
+        setName(data.data.name);
+        setDescription(data.data.description || '');
+        setCurrency(data.data.currency);
+      } else {
+        setError(data.error || 'Group not found');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Runs a request and refreshes the group, surfacing the API's error message on failure
+  const run = async (request: () => Promise<Response>, after?: () => void) => {
+    setError('');
+    setSaving(true);
+
+    try {
+      const response = await request();
+      const data = await response.json();
+
+      if (response.ok) {
+        if (after) {
+          after();
+        } else {
+          await fetchGroup();
+        }
+      } else {
+        setError(data.error || 'Request failed');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateGroup = (changes: Record<string, unknown>) =>
+    run(() =>
+      fetch(`/api/groups/${params.groupId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      })
+    );
+
+  const handleImage = (file: File | undefined) => {
+    if (!file) return;
+    const formData = new FormData();
+    formData.append('file', file);
+    run(() => fetch(`/api/groups/${params.groupId}/image`, { method: 'POST', body: formData }));
+  };
+
+  const transferAdmin = (memberId: string) =>
+    run(() =>
+      fetch(`/api/groups/${params.groupId}/admin`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: memberId }),
+      })
+    );
+
+  const removeMember = (memberId: string) => {
+    const leaving = memberId === userId;
+    if (!confirm(leaving ? 'Leave this group?' : 'Remove this member from the group?')) return;
+
+    const query = reassignTo[memberId] ? `?reassignTo=${reassignTo[memberId]}` : '';
+    run(
+      () => fetch(`/api/groups/${params.groupId}/members/${memberId}${query}`, { method: 'DELETE' }),
+      leaving ? () => router.push('/groups') : undefined
+    );
+  };
+
+  const deleteGroup = () => {
+    if (!confirm('Delete this group and all of its receipts? This cannot be undone.')) return;
+    run(
+      () => fetch(`/api/groups/${params.groupId}`, { method: 'DELETE' }),
+      () => router.push('/groups')
+    );
+  };
+
+  if (loading) {
+    return <div className="p-8">Loading...</div>;
+  }
+
+  const isAdmin = group?.members.some(m => m.userId === userId && m.role === 'admin') ?? false;
+  const editable = isAdmin && !group?.archived;
+
+  return (
+    <div className="p-8 max-w-3xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">{group ? `${group.name} settings` : 'Group settings'}</h1>
+        <Link href="/groups" className="text-blue-600 hover:underline text-sm">
+          ← Back to Groups
+        </Link>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded">{error}</div>
+      )}
+
+      {group && (
+        <>
+          {group.archived && (
+            <div className="p-3 bg-yellow-50 border border-yellow-300 text-yellow-800 rounded">
+              This group is archived and read-only.
+            </div>
+          )}
+
+          <div className="bg-white p-6 border rounded-lg shadow space-y-4">
+            <h2 className="text-xl font-bold">Details</h2>
+
+            <div className="flex items-center gap-4">
+              {group.imageUrl ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={group.imageUrl} alt="" className="w-16 h-16 rounded-full object-cover" />
+              ) : (
+                <div className="w-16 h-16 rounded-full bg-gray-200" />
+              )}
+              {editable && (
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp,image/gif"
+                  onChange={(e) => handleImage(e.target.files?.[0])}
+                  disabled={saving}
+                />
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Group Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={!editable}
+                className="w-full p-2 border rounded"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Description</label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                disabled={!editable}
+                className="w-full p-2 border rounded h-24"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Currency</label>
+              <input
+                type="text"
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+                maxLength={3}
+                disabled={!editable}
+                className="w-24 p-2 border rounded"
+              />
+            </div>
+
+            {isAdmin && (
+              <div className="flex gap-3">
+                {!group.archived && (
+                  <button
+                    onClick={() =>
+                      updateGroup({ name, description: description || null, currency })
+                    }
+                    disabled={saving}
+                    className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:bg-gray-400"
+                  >
+                    {saving ? 'Saving...' : 'Save'}
+                  </button>
+                )}
+                <button
+                  onClick={() => updateGroup({ archived: !group.archived })}
+                  disabled={saving}
+                  className="bg-gray-200 px-4 py-2 rounded hover:bg-gray-300"
+                >
+                  {group.archived ? 'Unarchive' : 'Archive'}
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white p-6 border rounded-lg shadow">
+            <h2 className="text-xl font-bold mb-4">Members ({group.members.length})</h2>
+
+            <div className="space-y-3">
+              {group.members.map((member) => {
+                const others = group.members.filter(m => m.userId !== member.userId);
+                const canRemove = member.userId === userId || isAdmin;
+
+                return (
+                  <div key={member.userId} className="p-3 bg-gray-50 rounded">
+                    <div className="flex justify-between items-center">
+                      <div>
+                        <p className="font-medium">
+                          {member.user.name || member.user.email}
+                          {member.role === 'admin' && (
+                            <span className="ml-2 text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded">
+                              admin
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {member.balances.length === 0
+                            ? 'Settled up'
+                            : member.balances
+                                .map(b => `${b.amount > 0 ? '+' : ''}${b.amount.toFixed(2)} ${b.currency}`)
+                                .join(', ')}
+                        </p>
+                      </div>
+
+                      <div className="flex gap-2">
+                        {isAdmin && member.role !== 'admin' && (
+                          <button
+                            onClick={() => transferAdmin(member.userId)}
+                            disabled={saving}
+                            className="text-sm bg-gray-200 px-3 py-1 rounded hover:bg-gray-300"
+                          >
+                            Make admin
+                          </button>
+                        )}
+                        {canRemove && (
+                          <button
+                            onClick={() => removeMember(member.userId)}
+                            disabled={saving}
+                            className="text-sm bg-red-100 text-red-700 px-3 py-1 rounded hover:bg-red-200"
+                          >
+                            {member.userId === userId ? 'Leave' : 'Remove'}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+
+                    {canRemove && member.balances.length > 0 && (
+                      <div className="mt-2 text-sm">
+                        <label className="text-gray-600 mr-2">Reassign balance to</label>
+                        <select
+                          value={reassignTo[member.userId] || ''}
+                          onChange={(e) =>
+                            setReassignTo({ ...reassignTo, [member.userId]: e.target.value })
+                          }
+                          className="p-1 border rounded"
+                        >
+                          <option value="">Nobody (settle up first)</option>
+                          {others.map(m => (
+                            <option key={m.userId} value={m.userId}>
+                              {m.user.name || m.user.email}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {editable && (
+            <div className="bg-white p-6 border rounded-lg shadow flex justify-between items-center">
+              <div>
+                <h2 className="text-xl font-bold mb-1">Import from Splitwise</h2>
+                <p className="text-gray-600 text-sm">
+                  Bring a Splitwise group&apos;s expenses and payments into this group.
+                </p>
+              </div>
+              <Link
+                href={`/groups/${params.groupId}/settings/import`}
+                className="text-blue-600 hover:underline text-sm"
+              >
+                Import →
+              </Link>
+            </div>
+          )}
+
+          {isAdmin && (
+            <div className="bg-white p-6 border rounded-lg shadow flex justify-between items-center">
+              <div>
+                <h2 className="text-xl font-bold mb-1">Webhooks</h2>
+                <p className="text-gray-600 text-sm">
+                  Notify other apps when receipts, splits and payments change.
+                </p>
+              </div>
+              <Link
+                href={`/groups/${params.groupId}/settings/webhooks`}
+                className="text-blue-600 hover:underline text-sm"
+              >
+                Manage →
+              </Link>
+            </div>
+          )}
+
+          {isAdmin && (
+            <div className="bg-white p-6 border border-red-200 rounded-lg shadow">
+              <h2 className="text-xl font-bold text-red-700 mb-2">Delete group</h2>
+              <p className="text-gray-600 mb-4">
+                Only possible once every balance in the group is settled.
+              </p>
+              <button
+                onClick={deleteGroup}
+                disabled={saving}
+                className="bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700 disabled:bg-gray-400"
+              >
+                Delete Group
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,321 @@
+'use client'
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+
+interface Webhook {
+  id: string;
+  url: string;
+  secret: string;
+  events: string[];
+  active: boolean;
+  createdAt: string;
+}
+
+interface Delivery {
+  id: string;
+  event: string;
+  payload: unknown;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  redeliveryOf: string | null;
+  createdAt: string;
+}
+
+const EVENTS = [
+  { value: 'receipt.parsed', label: 'A receipt was scanned' },
+  { value: 'split.created', label: 'A receipt was split' },
+  { value: 'debt.settled', label: 'A debt was paid off' },
+  { value: 'transaction.confirmed', label: 'A payment was confirmed' },
+  { value: 'import.completed', label: 'Expenses were imported' },
+];
+
+const STATUS_STYLES: Record<Delivery['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+export default function GroupWebhooks({ params }: { params: { groupId: string } }) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<Record<string, Delivery[]>>({});
+  const [expanded, setExpanded] = useState('');
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<string[]>(EVENTS.map(e => e.value));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchWebhooks();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [params.groupId]);
+
+  const base = `/api/groups/${params.groupId}/webhooks`;
+
+  const fetchWebhooks = async () => {
+    try {
+      const response = await fetch(base);
+      const data = await response.json();
+
+      if (response.ok) {
+        setWebhooks(data.data);
+      } else {
+        setError(data.error || 'Could not load webhooks');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchDeliveries = async (webhookId: string) => {
+    try {
+      const response = await fetch(`${base}/${webhookId}/deliveries`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setDeliveries(current => ({ ...current, [webhookId]: data.data }));
+      } else {
+        setError(data.error || 'Could not load deliveries');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    }
+  };
+
+  // Runs a request, surfacing the API's error message on failure
+  const run = async (request: () => Promise<Response>, after: () => void) => {
+    setError('');
+    setSaving(true);
+
+    try {
+      const response = await request();
+      const data = await response.json();
+
+      if (response.ok) {
+        after();
+      } else {
+        setError(data.error || 'Request failed');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const send = (path: string, method: string, body?: unknown) =>
+    fetch(`${base}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const createWebhook = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => send('', 'POST', { url, events }), () => {
+      setUrl('');
+      fetchWebhooks();
+    });
+  };
+
+  const toggleEvent = (event: string) => {
+    setEvents(events.includes(event) ? events.filter(e => e !== event) : [...events, event]);
+  };
+
+  const updateWebhook = (webhook: Webhook, changes: Partial<Webhook>) =>
+    run(() => send(`/${webhook.id}`, 'PATCH', changes), fetchWebhooks);
+
+  const deleteWebhook = (webhook: Webhook) => {
+    if (!confirm(`Stop sending events to ${webhook.url}?`)) return;
+    run(() => send(`/${webhook.id}`, 'DELETE'), fetchWebhooks);
+  };
+
+  const toggleDeliveries = (webhookId: string) => {
+    if (expanded === webhookId) {
+      setExpanded('');
+    } else {
+      setExpanded(webhookId);
+      fetchDeliveries(webhookId);
+    }
+  };
+
+  const redeliver = (webhookId: string, deliveryId: string) =>
+    run(
+      () => send(`/${webhookId}/deliveries/${deliveryId}/redeliver`, 'POST'),
+      () => fetchDeliveries(webhookId)
+    );
+
+  if (loading) {
+    return <div className="p-8">Loading...</div>;
+  }
+
+  return (
+    <div className="p-8 max-w-3xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Webhooks</h1>
+        <Link
+          href={`/groups/${params.groupId}/settings`}
+          className="text-blue-600 hover:underline text-sm"
+        >
+          ← Back to Settings
+        </Link>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded">{error}</div>
+      )}
+
+      <form onSubmit={createWebhook} className="bg-white p-6 border rounded-lg shadow space-y-4">
+        <h2 className="text-xl font-bold">Add a webhook</h2>
+        <p className="text-gray-600 text-sm">
+          Each event is POSTed as JSON and signed in the <code>X-FairSplit-Signature</code>{' '}
+          header: <code>t=timestamp,v1=HMAC-SHA256(secret, &quot;timestamp.body&quot;)</code>.
+          Failed deliveries are retried with increasing delays.
+        </p>
+
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://example.com/fairsplit-webhook"
+          className="w-full p-2 border rounded"
+          required
+        />
+
+        <div className="space-y-1">
+          {EVENTS.map((event) => (
+            <label key={event.value} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={events.includes(event.value)}
+                onChange={() => toggleEvent(event.value)}
+              />
+              <code>{event.value}</code>
+              <span className="text-gray-500">{event.label}</span>
+            </label>
+          ))}
+        </div>
+
+        <button
+          type="submit"
+          disabled={saving || events.length === 0}
+          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          Add Webhook
+        </button>
+      </form>
+
+      {webhooks.length === 0 ? (
+        <p className="text-gray-500">No webhooks yet.</p>
+      ) : (
+        webhooks.map((webhook) => (
+          <div key={webhook.id} className="bg-white p-6 border rounded-lg shadow space-y-3">
+            <div className="flex justify-between items-start gap-4">
+              <div className="min-w-0">
+                <p className="font-medium break-all">
+                  {webhook.url}
+                  {!webhook.active && (
+                    <span className="ml-2 text-xs bg-gray-200 text-gray-700 px-2 py-0.5 rounded">
+                      paused
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-500">{webhook.events.join(', ')}</p>
+                <p className="text-sm text-gray-500">
+                  Secret: <code className="break-all">{webhook.secret}</code>
+                </p>
+              </div>
+
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => updateWebhook(webhook, { active: !webhook.active })}
+                  disabled={saving}
+                  className="text-sm bg-gray-200 px-3 py-1 rounded hover:bg-gray-300"
+                >
+                  {webhook.active ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  onClick={() => deleteWebhook(webhook)}
+                  disabled={saving}
+                  className="text-sm bg-red-100 text-red-700 px-3 py-1 rounded hover:bg-red-200"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            <button
+              onClick={() => toggleDeliveries(webhook.id)}
+              className="text-blue-600 hover:underline text-sm"
+            >
+              {expanded === webhook.id ? 'Hide deliveries' : 'Show recent deliveries'}
+            </button>
+
+            {expanded === webhook.id && (
+              <div className="space-y-2">
+                {(deliveries[webhook.id] || []).length === 0 ? (
+                  <p className="text-gray-500 text-sm">Nothing sent yet.</p>
+                ) : (
+                  deliveries[webhook.id].map((delivery) => (
+                    <details key={delivery.id} className="p-3 bg-gray-50 rounded text-sm">
+                      <summary className="flex justify-between items-center cursor-pointer">
+                        <span>
+                          <span
+                            className={`text-xs px-2 py-0.5 rounded mr-2 ${STATUS_STYLES[delivery.status]}`}
+                          >
+                            {delivery.status}
+                          </span>
+                          <code>{delivery.event}</code>
+                          <span className="text-gray-500 ml-2">
+                            {new Date(delivery.createdAt).toLocaleString()}
+                            {delivery.redeliveryOf && ' · resent'}
+                          </span>
+                        </span>
+                        <button
+                          onClick={(e) => {
+                            e.preventDefault();
+                            redeliver(webhook.id, delivery.id);
+                          }}
+                          disabled={saving}
+                          className="text-xs bg-gray-200 px-2 py-1 rounded hover:bg-gray-300"
+                        >
+                          Redeliver
+                        </button>
+                      </summary>
+
+                      <div className="mt-2 space-y-1 text-gray-600">
+                        <p>
+                          {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                          {delivery.responseStatus !== null && ` · HTTP ${delivery.responseStatus}`}
+                          {delivery.durationMs !== null && ` · ${delivery.durationMs} ms`}
+                          {delivery.error && ` · ${delivery.error}`}
+                          {delivery.nextAttemptAt &&
+                            ` · next try ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+                        </p>
+                        <pre className="p-2 bg-white border rounded overflow-x-auto text-xs">
+                          {JSON.stringify(delivery.payload, null, 2)}
+                        </pre>
+                        {delivery.responseBody && (
+                          <pre className="p-2 bg-white border rounded overflow-x-auto text-xs">
+                            {delivery.responseBody}
+                          </pre>
+                        )}
+                      </div>
+                    </details>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
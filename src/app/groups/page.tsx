@@ -1,10 +1,12 @@
 'use client'
 import { useState, useEffect } from 'react'
+import Link from 'next/link'
 
 interface Group {
   id: string;
   name: string;
   description: string | null;
+  archived?: boolean;
   memberCount?: number;
   totalExpenses?: number;
   pendingDebts?: number;
@@ -150,7 +152,20 @@ export default function Groups() {
         <div className="space-y-4">
           {groups.map((group) => (
             <div key={group.id} className="bg-white p-6 border rounded-lg shadow">
-              <h3 className="text-xl font-bold">{group.name}</h3>
+              <div className="flex justify-between items-center">
+                <h3 className="text-xl font-bold">
+                  {group.name}
+                  {group.archived && (
+                    <span className="ml-2 text-sm font-normal text-gray-500">(archived)</span>
+                  )}
+                </h3>
+                <Link
+                  href={`/groups/${group.id}/settings`}
+                  className="text-blue-600 hover:underline text-sm"
+                >
+                  Settings
+                </Link>
+              </div>
               <p className="text-gray-600">{group.description}</p>
             </div>
           ))}
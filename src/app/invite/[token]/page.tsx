@@ -0,0 +1,119 @@
+'use client'
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+
+interface Invite {
+  group: {
+    id: string;
+    name: string;
+    description: string | null;
+    memberCount: number;
+  };
+  email: string | null;
+  expires: string;
+}
+
+export default function AcceptInvite({ params }: { params: { token: string } }) {
+  const [invite, setInvite] = useState<Invite | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+  const [error, setError] = useState('');
+  const router = useRouter();
+
+  useEffect(() => {
+    const fetchInvite = async () => {
+      try {
+        const response = await fetch(`/api/invites/${params.token}`);
+        const data = await response.json();
+
+        if (response.ok) {
+          setInvite(data.data);
+        } else {
+          setError(data.error || 'Invite not found');
+        }
+      } catch (err) {
+        setError('Network error. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInvite();
+  }, [params.token]);
+
+  const handleAccept = async () => {
+    setError('');
+    setJoining(true);
+
+    try {
+      const response = await fetch(`/api/invites/${params.token}`, { method: 'POST' });
+      const data = await response.json();
+
+      if (response.ok) {
+        router.push('/groups');
+      } else if (response.status === 401) {
+        router.push('/login');
+      } else {
+        setError(data.error || 'Could not join the group');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center">
+      <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            FairSplit AI 🤝💰
+          </h1>
+          <p className="text-gray-600">You have been invited to a group</p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-center text-gray-600">Loading invite...</p>
+        ) : invite && (
+          <div className="space-y-4">
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <h2 className="text-xl font-bold text-gray-900">{invite.group.name}</h2>
+              {invite.group.description && (
+                <p className="text-gray-600 mt-1">{invite.group.description}</p>
+              )}
+              <p className="text-sm text-gray-500 mt-2">
+                {invite.group.memberCount} members · expires{' '}
+                {new Date(invite.expires).toLocaleDateString()}
+              </p>
+              {invite.email && (
+                <p className="text-sm text-gray-500 mt-1">Sent to {invite.email}</p>
+              )}
+            </div>
+
+            <button
+              onClick={handleAccept}
+              disabled={joining}
+              className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 font-semibold"
+            >
+              {joining ? 'Joining...' : 'Join Group'}
+            </button>
+          </div>
+        )}
+
+        <div className="mt-6 text-center">
+          <Link href="/" className="text-blue-600 hover:underline text-sm">
+            ← Back to Home
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -6,6 +6,9 @@ import Link from 'next/link'
 export default function Login() {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
+  const [trustDevice, setTrustDevice] = useState(false)
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
   const router = useRouter()
@@ -19,7 +22,7 @@ export default function Login() {
       const response = await fetch('/api/auth/login', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, password }),
+        body: JSON.stringify({ email, password, code: code || undefined, trustDevice }),
       })
 
       const data = await response.json()
@@ -28,6 +31,10 @@ export default function Login() {
         // Store user info in localStorage
         localStorage.setItem('user', JSON.stringify(data.user))
         router.push('/dashboard')
+      } else if (data.twoFactorRequired) {
+        setTwoFactorRequired(true)
+        // The first prompt is not an error, just the next step
+        setError(code ? data.error : '')
       } else {
         setError(data.error || 'Login failed')
       }
@@ -79,15 +86,48 @@ export default function Login() {
             />
           </div>
 
+          {twoFactorRequired && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Two-factor code</label>
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456 or a recovery code"
+                autoComplete="one-time-code"
+                autoFocus
+                className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500"
+                required
+              />
+              <label className="flex items-center gap-2 mt-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={trustDevice}
+                  onChange={(e) => setTrustDevice(e.target.checked)}
+                />
+                Trust this device for 30 days
+              </label>
+            </div>
+          )}
+
           <button
             type="submit"
             disabled={loading}
             className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 font-semibold"
           >
-            {loading ? 'Signing in...' : 'Sign In'}
+            {loading ? 'Signing in...' : twoFactorRequired ? 'Verify' : 'Sign In'}
           </button>
         </form>
 
+        <div className="mt-4 flex justify-between text-sm">
+          <Link href="/signup" className="text-blue-600 hover:underline">
+            Create an account
+          </Link>
+          <Link href="/forgot-password" className="text-blue-600 hover:underline">
+            Forgot password?
+          </Link>
+        </div>
+
         <div className="mt-6 p-4 bg-gray-50 rounded-lg">
           <p className="text-sm font-medium mb-2">Demo Accounts:</p>
           <div className="space-y-1 text-sm text-gray-600">
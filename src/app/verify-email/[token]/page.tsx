@@ -0,0 +1,69 @@
+'use client'
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+
+export default function VerifyEmail({ params }: { params: { token: string } }) {
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying')
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/auth/verify-email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token: params.token }),
+        })
+
+        const data = await response.json()
+
+        if (response.ok) {
+          setStatus('verified')
+        } else {
+          setError(data.error || 'Could not verify your email address')
+          setStatus('failed')
+        }
+      } catch (err) {
+        setError('Network error. Please try again.')
+        setStatus('failed')
+      }
+    }
+
+    verify()
+  }, [params.token])
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white flex items-center justify-center">
+      <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            FairSplit AI 🤝💰
+          </h1>
+          <p className="text-gray-600">Email verification</p>
+        </div>
+
+        {status === 'verifying' && (
+          <p className="text-center text-gray-600">Verifying your email address...</p>
+        )}
+
+        {status === 'verified' && (
+          <div className="p-3 bg-green-100 border border-green-400 text-green-700 rounded">
+            Your email address is verified.
+          </div>
+        )}
+
+        {status === 'failed' && (
+          <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+            {error}
+          </div>
+        )}
+
+        <div className="mt-6 text-center">
+          <Link href="/dashboard" className="text-blue-600 hover:underline text-sm">
+            Continue to Dashboard →
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,24 +1,16 @@
 'use client'
 import Link from 'next/link'
 import { usePathname, useRouter } from 'next/navigation'
-import { useEffect, useState } from 'react'
+import { useAuth } from '@/hooks/useAuth'
 
 export default function Navigation() {
   const pathname = usePathname()
   const router = useRouter()
-  const [user, setUser] = useState<any>(null)
+  // Re-checked with the server on every navigation, so revoked sessions drop out
+  const { user, logout } = useAuth(pathname)
 
-  useEffect(() => {
-    // Check for logged-in user
-    const storedUser = localStorage.getItem('user')
-    if (storedUser) {
-      setUser(JSON.parse(storedUser))
-    }
-  }, [pathname])
-
-  const handleLogout = () => {
-    localStorage.removeItem('user')
-    setUser(null)
+  const handleLogout = async () => {
+    await logout()
     router.push('/login')
   }
 
@@ -60,9 +52,9 @@ export default function Navigation() {
           <div className="flex items-center gap-4">
             {user ? (
               <>
-                <span className="text-sm text-gray-700">
+                <Link href="/account" className="text-sm text-gray-700 hover:text-blue-600">
                   👤 {user.name || user.email}
-                </span>
+                </Link>
                 <button
                   type="button"
                   onClick={handleLogout}
@@ -1,5 +1,6 @@
 'use client';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { getSession, signOut } from 'next-auth/react';
 
 interface User {
   id: string;
@@ -7,11 +8,16 @@ interface User {
   name: string | null;
 }
 
-export function useAuth() {
+/**
+ * The signed-in user. localStorage only gives a fast first render; the server
+ * decides whether the session is still valid (it may have been revoked), and
+ * is asked again whenever `revalidateKey` changes.
+ */
+export function useAuth(revalidateKey?: unknown) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
+  const refresh = useCallback(async () => {
     const storedUser = localStorage.getItem('user');
     if (storedUser) {
       try {
@@ -21,15 +27,41 @@ export function useAuth() {
         localStorage.removeItem('user');
       }
     }
-    setLoading(false);
+
+    try {
+      const session = await getSession();
+
+      if (session?.user?.id) {
+        const current = {
+          id: session.user.id,
+          email: session.user.email ?? '',
+          name: session.user.name ?? null,
+        };
+        setUser(current);
+        localStorage.setItem('user', JSON.stringify(current));
+      } else {
+        setUser(null);
+        localStorage.removeItem('user');
+      }
+    } catch (error) {
+      // Offline or the server is down: keep the cached user until we can check
+      console.error('Failed to check session:', error);
+    } finally {
+      setLoading(false);
+    }
   }, []);
 
+  useEffect(() => {
+    refresh();
+  }, [refresh, revalidateKey]);
+
   const login = (userData: User) => {
     setUser(userData);
     localStorage.setItem('user', JSON.stringify(userData));
   };
 
-  const logout = () => {
+  const logout = async () => {
+    await signOut({ redirect: false });
     setUser(null);
     localStorage.removeItem('user');
   };
@@ -40,5 +72,6 @@ export function useAuth() {
     isAuthenticated: !!user,
     login,
     logout,
+    refresh,
   };
 }
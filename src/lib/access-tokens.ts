@@ -0,0 +1,164 @@
+import { createHash, randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+
+// What a personal access token may do through /api/v1
+export const TOKEN_SCOPES = ['ledger:read', 'expenses:write', 'settle'] as const;
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+// Tokens look like fsp_<43 url-safe characters>; the prefix makes leaked ones easy to spot
+const TOKEN_PREFIX = 'fsp_';
+
+export interface CreateAccessTokenInput {
+  name: string;
+  scopes: TokenScope[];
+  expiresInDays?: number; // Omit for a token that doesn't expire
+}
+
+export interface AccessTokenIdentity {
+  tokenId: string;
+  userId: string;
+  scopes: TokenScope[];
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function serializeAccessToken(token: {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: Prisma.JsonValue;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+}) {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    scopes: token.scopes as TokenScope[],
+    lastUsedAt: token.lastUsedAt,
+    expiresAt: token.expiresAt,
+    createdAt: token.createdAt,
+  };
+}
+
+/**
+ * Issue a token. The raw value is returned once and cannot be recovered later.
+ */
+export async function createAccessToken(userId: string, input: CreateAccessTokenInput) {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const scopes = Array.from(new Set(input.scopes));
+
+  const created = await prisma.$transaction(async tx => {
+    const record = await tx.personalAccessToken.create({
+      data: {
+        userId,
+        name: input.name,
+        tokenHash: hashToken(token),
+        prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+        scopes,
+        expiresAt: input.expiresInDays
+          ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+          : null,
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'access_token_create',
+        resource: 'auth',
+        resourceId: record.id,
+        metadata: { name: input.name, scopes },
+        success: true,
+      },
+    });
+
+    return record;
+  });
+
+  return { ...serializeAccessToken(created), token };
+}
+
+/**
+ * The user's tokens that still work
+ */
+export async function listAccessTokens(userId: string) {
+  const tokens = await prisma.personalAccessToken.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return tokens.map(serializeAccessToken);
+}
+
+/**
+ * Stop a token from working. Revoked tokens are kept for the audit trail.
+ */
+export async function revokeAccessToken(userId: string, tokenId: string) {
+  await prisma.$transaction(async tx => {
+    const { count } = await tx.personalAccessToken.updateMany({
+      where: { id: tokenId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new ServiceError('Token not found', 404);
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'access_token_revoke',
+        resource: 'auth',
+        resourceId: tokenId,
+        success: true,
+      },
+    });
+  });
+}
+
+/**
+ * Who an `Authorization: Bearer fsp_...` header belongs to, or a 401 if the
+ * token is unknown, revoked or expired. A 403 if it lacks the scope.
+ */
+export async function authenticateAccessToken(
+  authorization: string | null,
+  scope: TokenScope
+): Promise<AccessTokenIdentity> {
+  const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token || !token.startsWith(TOKEN_PREFIX)) {
+    throw new ServiceError('Missing or malformed bearer token', 401);
+  }
+
+  const record = await prisma.personalAccessToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  const now = new Date();
+  if (!record || record.revokedAt || (record.expiresAt && record.expiresAt <= now)) {
+    throw new ServiceError('Invalid or expired token', 401);
+  }
+
+  const scopes = record.scopes as TokenScope[];
+  if (!scopes.includes(scope)) {
+    throw new ServiceError(`This token lacks the ${scope} scope`, 403);
+  }
+
+  // Only worth a write when it's stale
+  if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() > 60 * 1000) {
+    await prisma.personalAccessToken.update({
+      where: { id: record.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return { tokenId: record.id, userId: record.userId, scopes };
+}
@@ -0,0 +1,242 @@
+import { createHash, randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+import bcrypt from 'bcryptjs';
+import { prisma } from '@/lib/db';
+import { appUrl, sendEmail } from '@/lib/email';
+import { ServiceError } from '@/lib/errors';
+import { revokeAllSessions } from '@/lib/sessions';
+
+// Like invites, these tokens live in VerificationToken as a sha256 hash under
+// "<purpose>:<userId>"; the raw token only ever appears in the emailed link.
+const VERIFY_PREFIX = 'verify-email';
+const RESET_PREFIX = 'password-reset';
+
+const VERIFY_HOURS = 24;
+const RESET_HOURS = 1;
+const BCRYPT_ROUNDS = 12;
+
+export interface SignupInput {
+  email: string;
+  password: string;
+  name?: string;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Replace any outstanding token for this user and purpose with a fresh one
+ */
+async function issueToken(prefix: string, userId: string, hours: number): Promise<string> {
+  const identifier = `${prefix}:${userId}`;
+  const token = randomBytes(32).toString('base64url');
+
+  await prisma.$transaction([
+    prisma.verificationToken.deleteMany({ where: { identifier } }),
+    prisma.verificationToken.create({
+      data: {
+        identifier,
+        token: hashToken(token),
+        expires: new Date(Date.now() + hours * 60 * 60 * 1000),
+      },
+    }),
+  ]);
+
+  return token;
+}
+
+/**
+ * The user a token was issued to. Tokens are single use: it is deleted here.
+ */
+async function redeemToken(prefix: string, token: string): Promise<string> {
+  const record = await prisma.verificationToken.findUnique({
+    where: { token: hashToken(token) },
+  });
+
+  if (!record || !record.identifier.startsWith(`${prefix}:`)) {
+    throw new ServiceError('This link is invalid or has already been used', 404);
+  }
+
+  const { count } = await prisma.verificationToken.deleteMany({ where: { token: record.token } });
+  if (count === 0) {
+    throw new ServiceError('This link is invalid or has already been used', 404);
+  }
+
+  if (record.expires <= new Date()) {
+    throw new ServiceError('This link has expired', 410);
+  }
+
+  return record.identifier.slice(prefix.length + 1);
+}
+
+/**
+ * Create a password account and email a verification link
+ */
+export async function registerUser(input: SignupInput) {
+  const email = input.email.trim().toLowerCase();
+
+  const existing = await prisma.user.findUnique({ where: { email } });
+  if (existing) {
+    throw new ServiceError('An account with this email already exists', 409);
+  }
+
+  const passwordHash = await bcrypt.hash(input.password, BCRYPT_ROUNDS);
+
+  const user = await prisma.user
+    .create({
+      data: { email, name: input.name?.trim() || null, passwordHash },
+      select: { id: true, email: true, name: true, emailVerified: true },
+    })
+    .catch(error => {
+      // Someone signed up with the same address since the check above
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ServiceError('An account with this email already exists', 409);
+      }
+      throw error;
+    });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: user.id,
+      action: 'user_signup',
+      resource: 'auth',
+      metadata: { provider: 'credentials' },
+      success: true,
+    },
+  });
+
+  // The account is usable either way; the link can be sent again later
+  try {
+    await sendVerificationEmail(user.id);
+  } catch (error) {
+    console.error('Verification email error:', error);
+  }
+
+  return user;
+}
+
+/**
+ * Email a link that confirms the user owns their address
+ */
+export async function sendVerificationEmail(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, name: true, emailVerified: true },
+  });
+
+  if (!user) {
+    throw new ServiceError('User not found', 404);
+  }
+  if (user.emailVerified) {
+    throw new ServiceError('Your email address is already verified', 409);
+  }
+
+  const token = await issueToken(VERIFY_PREFIX, userId, VERIFY_HOURS);
+  const link = appUrl(`/verify-email/${token}`);
+
+  await sendEmail({
+    to: user.email,
+    subject: 'Verify your FairSplit AI email address',
+    text:
+      `Hi ${user.name || 'there'},\n\n` +
+      `Confirm your email address by opening this link:\n${link}\n\n` +
+      `The link expires in ${VERIFY_HOURS} hours.`,
+  });
+}
+
+/**
+ * Mark the address behind a verification link as verified
+ */
+export async function verifyEmail(token: string) {
+  const userId = await redeemToken(VERIFY_PREFIX, token);
+
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { emailVerified: new Date() },
+    select: { id: true, email: true, emailVerified: true },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId,
+      action: 'email_verify',
+      resource: 'auth',
+      success: true,
+    },
+  });
+
+  return user;
+}
+
+/**
+ * Email a password reset link. Unknown addresses are ignored without an error
+ * so the endpoint cannot be used to find out who has an account.
+ */
+export async function requestPasswordReset(email: string) {
+  const user = await prisma.user.findUnique({
+    where: { email: email.trim().toLowerCase() },
+    select: { id: true, email: true, name: true },
+  });
+  if (!user) return;
+
+  const token = await issueToken(RESET_PREFIX, user.id, RESET_HOURS);
+  const link = appUrl(`/reset-password/${token}`);
+
+  // Failing here would tell the caller the address has an account
+  try {
+    await sendEmail({
+      to: user.email,
+      subject: 'Reset your FairSplit AI password',
+      text:
+        `Hi ${user.name || 'there'},\n\n` +
+        `Someone asked to reset the password for this account. To choose a new one, open:\n` +
+        `${link}\n\n` +
+        `The link expires in ${RESET_HOURS} hour. If it wasn't you, ignore this email.`,
+    });
+  } catch (error) {
+    console.error('Password reset email error:', error);
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      userId: user.id,
+      action: 'password_reset_request',
+      resource: 'auth',
+      success: true,
+    },
+  });
+}
+
+/**
+ * Set a new password from a reset link. Receiving the link also proves the
+ * user owns the address, so it counts as verifying it. Every existing session
+ * is signed out, in case the old password was compromised.
+ */
+export async function resetPassword(token: string, password: string) {
+  const userId = await redeemToken(RESET_PREFIX, token);
+
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { emailVerified: true },
+  });
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      passwordHash: await bcrypt.hash(password, BCRYPT_ROUNDS),
+      emailVerified: user.emailVerified ?? new Date(),
+    },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId,
+      action: 'password_reset',
+      resource: 'auth',
+      success: true,
+    },
+  });
+
+  await revokeAllSessions(userId, 'password_reset');
+}
@@ -1,11 +1,57 @@
-import NextAuth from 'next-auth';
+import NextAuth, { CredentialsSignin } from 'next-auth';
 import type { NextAuthConfig } from 'next-auth';
 import { PrismaAdapter } from '@auth/prisma-adapter';
 import CredentialsProvider from 'next-auth/providers/credentials';
 import GoogleProvider from 'next-auth/providers/google';
 import GitHubProvider from 'next-auth/providers/github';
+import { headers } from 'next/headers';
 import bcrypt from 'bcryptjs';
 import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import { clientInfo, type ClientInfo } from '@/lib/http';
+import { createSession, endSession, touchSession } from '@/lib/sessions';
+import {
+  checkSecondFactor,
+  TRUSTED_DEVICE_COOKIE,
+  type SecondFactorResult,
+} from '@/lib/two-factor';
+
+declare module 'next-auth' {
+  interface Session {
+    sessionId?: string; // Row in the sessions table backing this JWT
+  }
+}
+
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60; // 30 days
+
+/**
+ * The password was right but the two-factor step is missing or failed;
+ * `code` says which, and the login route turns it into a prompt
+ */
+export class TwoFactorError extends CredentialsSignin {
+  constructor(public code: Exclude<SecondFactorResult, 'ok'>) {
+    super();
+  }
+}
+
+function readCookie(headers: Headers, name: string): string | undefined {
+  const cookie = headers
+    .get('cookie')
+    ?.split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${name}=`));
+
+  return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : undefined;
+}
+
+// Callbacks run inside a request, but not always one we are handed directly
+function requestClient(): ClientInfo {
+  try {
+    return clientInfo(headers());
+  } catch {
+    return { ipAddress: null, userAgent: null };
+  }
+}
 
 export const authConfig = {
   adapter: PrismaAdapter(prisma) as any,
@@ -16,13 +62,14 @@ export const authConfig = {
       credentials: {
         email: { label: 'Email', type: 'email' },
         password: { label: 'Password', type: 'password' },
+        code: { label: 'Two-factor code', type: 'text' },
       },
-      async authorize(credentials: any) {
+      async authorize(credentials: any, request: Request) {
         if (!credentials?.email || !credentials?.password) {
           throw new Error('Invalid credentials');
         }
 
-        const email = String(credentials.email);
+        const email = String(credentials.email).trim().toLowerCase();
         const password = String(credentials.password);
 
         const user = await prisma.user.findUnique({
@@ -46,12 +93,29 @@ export const authConfig = {
           throw new Error('Invalid credentials');
         }
 
+        // Second step for users with 2FA, unless this browser is trusted
+        const client = clientInfo(request.headers);
+        const secondFactor = await checkSecondFactor(
+          user.id,
+          {
+            code: credentials.code ? String(credentials.code) : undefined,
+            deviceToken: readCookie(request.headers, TRUSTED_DEVICE_COOKIE),
+          },
+          client
+        );
+
+        if (secondFactor !== 'ok') {
+          throw new TwoFactorError(secondFactor);
+        }
+
         // Log successful login
         await prisma.auditLog.create({
           data: {
             userId: user.id,
             action: 'user_login',
             resource: 'auth',
+            ipAddress: client.ipAddress,
+            userAgent: client.userAgent,
             success: true,
           },
         });
@@ -86,12 +150,12 @@ export const authConfig = {
 
   session: {
     strategy: 'jwt',
-    maxAge: 30 * 24 * 60 * 60, // 30 days
+    maxAge: SESSION_MAX_AGE,
   },
 
   pages: {
-    signIn: '/auth/signin',
-    error: '/auth/error',
+    signIn: '/login',
+    error: '/login',
   },
 
   callbacks: {
@@ -101,6 +165,13 @@ export const authConfig = {
         token.email = user.email;
         token.name = user.name;
         token.picture = user.image;
+        token.sessionId = await createSession(user.id, requestClient(), SESSION_MAX_AGE);
+      } else if (
+        !token.sessionId ||
+        !(await touchSession(token.sessionId as string, requestClient()))
+      ) {
+        // Revoked, expired, or issued before sessions were tracked: sign out
+        return null;
       }
 
       if (account) {
@@ -116,6 +187,7 @@ export const authConfig = {
         session.user.email = token.email as string;
         session.user.name = token.name as string;
         session.user.image = token.picture as string;
+        session.sessionId = token.sessionId as string;
       }
 
       return session;
@@ -139,6 +211,10 @@ export const authConfig = {
     },
 
     async signOut({ token }: any) {
+      if (token?.sessionId) {
+        await endSession(token.sessionId as string);
+      }
+
       if (token?.id) {
         await prisma.auditLog.create({
           data: {
@@ -157,5 +233,17 @@ export const authConfig = {
 
 export const { handlers, auth, signIn, signOut } = NextAuth(authConfig);
 
+/**
+ * The signed-in user, or a 401 ServiceError for route handlers to return
+ */
+export async function requireUser() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    throw new ServiceError('Unauthorized', 401);
+  }
+
+  return { ...session.user, id: session.user.id };
+}
+
 // For backwards compatibility with NextAuth v4 getServerSession
 export const authOptions = authConfig;
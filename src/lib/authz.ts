@@ -0,0 +1,67 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+
+export type GroupRole = 'admin' | 'member';
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * The user's membership of a group, or a 403 if they don't belong to it.
+ * Pass `admin` to also require the admin role.
+ */
+export async function requireGroupMember(
+  groupId: string,
+  userId: string,
+  role: GroupRole = 'member',
+  client: Client = prisma
+) {
+  const membership = await client.groupMember.findUnique({
+    where: { userId_groupId: { userId, groupId } },
+  });
+
+  if (!membership) {
+    throw new ServiceError('Forbidden', 403);
+  }
+
+  if (role === 'admin' && membership.role !== 'admin') {
+    throw new ServiceError('Only group admins can do this', 403);
+  }
+
+  return membership;
+}
+
+export function requireGroupAdmin(groupId: string, userId: string, client: Client = prisma) {
+  return requireGroupMember(groupId, userId, 'admin', client);
+}
+
+/**
+ * A 403 unless the user is one of the instance's operators, listed by email in
+ * OPERATOR_EMAILS. For settings that affect every group, like exchange rates.
+ */
+export async function requireOperator(userId: string) {
+  const operators = (process.env.OPERATOR_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+
+  if (!user || !operators.includes(user.email.toLowerCase())) {
+    throw new ServiceError('Only operators can do this', 403);
+  }
+}
+
+/**
+ * Groups the user belongs to
+ */
+export function memberGroupsWhere(userId: string): Prisma.GroupWhereInput {
+  return { members: { some: { userId } } };
+}
+
+/**
+ * Receipts the user uploaded or that belong to one of their groups
+ */
+export function visibleReceiptsWhere(userId: string): Prisma.ReceiptWhereInput {
+  return { OR: [{ uploadedBy: userId }, { group: memberGroupsWhere(userId) }] };
+}
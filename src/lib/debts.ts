@@ -0,0 +1,11 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Debts belonging to a group: those from its receipts' splits
+ * and those created by its accepted settlement plans
+ */
+export function groupDebtsWhere(groupId: string): Prisma.DebtWhereInput {
+  return {
+    OR: [{ split: { receipt: { groupId } } }, { plan: { groupId } }],
+  };
+}
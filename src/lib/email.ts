@@ -0,0 +1,80 @@
+import nodemailer from 'nodemailer';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Somewhere to hand outgoing mail. Picked by EMAIL_TRANSPORT:
+ *   smtp     any SMTP server via SMTP_URL, e.g. a local catcher at smtp://localhost:1025
+ *   console  log messages instead of sending them (the default outside production)
+ * Production has no default, so reset and verification links never end up in logs by accident.
+ */
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export class ConsoleTransport implements EmailTransport {
+  async send(message: EmailMessage) {
+    console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+export class SmtpTransport implements EmailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(
+    url: string,
+    private from: string
+  ) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(message: EmailMessage) {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+let transport: EmailTransport | null = null;
+
+export function getEmailTransport(): EmailTransport {
+  if (transport) return transport;
+
+  if (process.env.EMAIL_TRANSPORT === 'smtp') {
+    if (!process.env.SMTP_URL) {
+      throw new Error('SMTP_URL is required when EMAIL_TRANSPORT=smtp');
+    }
+    transport = new SmtpTransport(
+      process.env.SMTP_URL,
+      process.env.EMAIL_FROM || 'FairSplit AI <no-reply@fairsplit.local>'
+    );
+  } else if (process.env.EMAIL_TRANSPORT || process.env.NODE_ENV !== 'production') {
+    transport = new ConsoleTransport();
+  } else {
+    throw new Error('EMAIL_TRANSPORT is required in production, e.g. EMAIL_TRANSPORT=smtp');
+  }
+
+  return transport;
+}
+
+/**
+ * Swap the transport, e.g. for a provider SDK or to capture mail in scripts
+ */
+export function setEmailTransport(custom: EmailTransport) {
+  transport = custom;
+}
+
+export async function sendEmail(message: EmailMessage) {
+  await getEmailTransport().send(message);
+}
+
+/**
+ * Absolute URL for links in emails
+ */
+export function appUrl(path: string): string {
+  const base = (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '');
+  return `${base}${path}`;
+}
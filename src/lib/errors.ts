@@ -0,0 +1,16 @@
+/**
+ * Error thrown by domain services for problems the caller can fix
+ * (bad input, missing records, conflicting state).
+ * Routes turn it into a JSON response with the given status.
+ */
+export class ServiceError extends Error {
+  status: number;
+  details?: unknown;
+
+  constructor(message: string, status: number = 400, details?: unknown) {
+    super(message);
+    this.name = 'ServiceError';
+    this.status = status;
+    this.details = details;
+  }
+}
@@ -0,0 +1,164 @@
+import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import { Money } from '@/lib/money';
+
+export interface ExchangeRateInput {
+  base: string; // 1 unit of base...
+  quote: string; // ...is worth `rate` units of quote
+  rate: number;
+  date: Date;
+}
+
+export type ExchangeRateSource = 'file' | 'manual';
+
+/**
+ * Convert money at a given rate, rounding to the target currency's minor unit
+ */
+export function convertAt(money: Money, rate: number, to: string): Money {
+  return Money.fromMajor(money.toMajor() * rate, to);
+}
+
+/**
+ * In-memory view of stored rates for converting many amounts at once.
+ * The rate for a date is the most recent one published on or before it;
+ * a pair can be looked up in either direction.
+ */
+export class ExchangeRateTable {
+  private rates = new Map<string, { date: number; rate: number }[]>();
+
+  constructor(rates: ExchangeRateInput[]) {
+    for (const r of rates) {
+      const key = `${r.base.toUpperCase()}:${r.quote.toUpperCase()}`;
+      const list = this.rates.get(key) || [];
+      list.push({ date: r.date.getTime(), rate: r.rate });
+      this.rates.set(key, list);
+    }
+
+    for (const list of this.rates.values()) {
+      list.sort((a, b) => a.date - b.date);
+    }
+  }
+
+  rateFor(from: string, to: string, date: Date): number | null {
+    const base = from.toUpperCase();
+    const quote = to.toUpperCase();
+    if (base === quote) return 1;
+
+    const direct = this.latestOnOrBefore(`${base}:${quote}`, date);
+    if (direct !== null) return direct;
+
+    const inverse = this.latestOnOrBefore(`${quote}:${base}`, date);
+    return inverse !== null ? 1 / inverse : null;
+  }
+
+  convert(money: Money, to: string, date: Date): Money | null {
+    const rate = this.rateFor(money.currency, to, date);
+    return rate === null ? null : convertAt(money, rate, to);
+  }
+
+  private latestOnOrBefore(key: string, date: Date): number | null {
+    const list = this.rates.get(key);
+    if (!list) return null;
+
+    let found: number | null = null;
+    for (const entry of list) {
+      if (entry.date > date.getTime()) break;
+      found = entry.rate;
+    }
+    return found;
+  }
+}
+
+/**
+ * Load every stored rate between the given currencies
+ */
+export async function loadExchangeRates(currencies: string[]): Promise<ExchangeRateTable> {
+  const codes = Array.from(new Set(currencies.map(c => c.toUpperCase())));
+  const rates = await prisma.exchangeRate.findMany({
+    where: { base: { in: codes }, quote: { in: codes } },
+  });
+  return new ExchangeRateTable(rates);
+}
+
+/**
+ * Rate from one currency to another on a date, or a ServiceError if none is stored
+ */
+export async function getExchangeRate(from: string, to: string, date: Date): Promise<number> {
+  const table = await loadExchangeRates([from, to]);
+  const rate = table.rateFor(from, to, date);
+
+  if (rate === null) {
+    throw new ServiceError(
+      `No exchange rate from ${from} to ${to} on or before ${date.toISOString().split('T')[0]}`,
+      422
+    );
+  }
+
+  return rate;
+}
+
+/**
+ * Parse rates from a CSV (header: date,base,quote,rate) or JSON array file
+ */
+export function parseExchangeRates(content: string, format: 'csv' | 'json'): ExchangeRateInput[] {
+  const rows: Record<string, unknown>[] =
+    format === 'json' ? JSON.parse(content) : parseCsvRows(content);
+
+  if (!Array.isArray(rows)) {
+    throw new ServiceError('Exchange rate file must contain a list of rates');
+  }
+
+  return rows.map((row, index) => {
+    const base = String(row.base ?? '').trim().toUpperCase();
+    const quote = String(row.quote ?? '').trim().toUpperCase();
+    const rate = Number(row.rate);
+    const date = new Date(String(row.date ?? ''));
+
+    if (!/^[A-Z]{3}$/.test(base) || !/^[A-Z]{3}$/.test(quote)) {
+      throw new ServiceError(`Row ${index + 1}: base and quote must be 3-letter currency codes`);
+    }
+    if (!(rate > 0)) {
+      throw new ServiceError(`Row ${index + 1}: rate must be a positive number`);
+    }
+    if (isNaN(date.getTime())) {
+      throw new ServiceError(`Row ${index + 1}: invalid date`);
+    }
+
+    return { base, quote, rate, date };
+  });
+}
+
+function parseCsvRows(content: string): Record<string, string>[] {
+  const lines = content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean);
+  if (lines.length === 0) return [];
+
+  const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
+  return lines.slice(1).map(line => {
+    const values = line.split(',').map(v => v.trim());
+    return Object.fromEntries(headers.map((h, i) => [h, values[i]]));
+  });
+}
+
+/**
+ * Store rates, replacing any existing rate for the same pair and day
+ */
+export async function saveExchangeRates(
+  rates: ExchangeRateInput[],
+  source: ExchangeRateSource
+): Promise<number> {
+  await prisma.$transaction(
+    rates.map(r => {
+      const day = new Date(r.date.toISOString().split('T')[0]);
+      return prisma.exchangeRate.upsert({
+        where: { base_quote_date: { base: r.base, quote: r.quote, date: day } },
+        create: { base: r.base, quote: r.quote, rate: r.rate, date: day, source },
+        update: { rate: r.rate, source },
+      });
+    })
+  );
+
+  return rates.length;
+}
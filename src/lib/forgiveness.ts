@@ -0,0 +1,125 @@
+import { Prisma } from '@prisma/client';
+import type { Forgiveness } from '@/agents/DebtOptimizerAgent';
+import { requireGroupAdmin, requireGroupMember } from '@/lib/authz';
+import { prisma } from '@/lib/db';
+import { appendLedgerEntries } from '@/lib/ledger';
+import { Money } from '@/lib/money';
+
+export interface ForgivenessPolicy {
+  threshold: number | null; // Major units; null turns forgiveness off
+  memberCap: number | null; // Major units; null means no cap
+  needsConsent: boolean;
+}
+
+// A write-off proposed by a plan, with the members who have agreed to it so far
+export interface PlannedForgiveness extends Forgiveness {
+  approvedBy: string[];
+}
+
+/**
+ * A group's forgiveness policy, visible to its members
+ */
+export async function getForgivenessPolicy(groupId: string, requestedBy: string) {
+  await requireGroupMember(groupId, requestedBy);
+
+  const group = await prisma.group.findUniqueOrThrow({ where: { id: groupId } });
+  return serializeForgivenessPolicy(group);
+}
+
+/**
+ * Set a group's forgiveness policy. Only group admins may change it.
+ */
+export async function setForgivenessPolicy(
+  groupId: string,
+  policy: ForgivenessPolicy,
+  requestedBy: string
+) {
+  await requireGroupAdmin(groupId, requestedBy);
+
+  const group = await prisma.group.findUniqueOrThrow({
+    where: { id: groupId },
+    select: { currency: true },
+  });
+
+  const minor = (amount: number | null) =>
+    amount === null ? null : Money.fromMajor(amount, group.currency).minor;
+
+  const updated = await prisma.$transaction(async tx => {
+    const saved = await tx.group.update({
+      where: { id: groupId },
+      data: {
+        forgivenessThreshold: minor(policy.threshold),
+        forgivenessMemberCap: minor(policy.memberCap),
+        forgivenessNeedsConsent: policy.needsConsent,
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: requestedBy,
+        action: 'forgiveness_policy_update',
+        resource: 'groups',
+        resourceId: groupId,
+        metadata: { ...policy },
+        success: true,
+      },
+    });
+
+    return saved;
+  });
+
+  return serializeForgivenessPolicy(updated);
+}
+
+export function serializeForgivenessPolicy(group: {
+  currency: string;
+  forgivenessThreshold: number | null;
+  forgivenessMemberCap: number | null;
+  forgivenessNeedsConsent: boolean;
+}): ForgivenessPolicy {
+  const major = (minor: number | null) =>
+    minor === null ? null : Money.of(minor, group.currency).toMajor();
+
+  return {
+    threshold: major(group.forgivenessThreshold),
+    memberCap: major(group.forgivenessMemberCap),
+    needsConsent: group.forgivenessNeedsConsent,
+  };
+}
+
+/**
+ * Record the write-offs of an accepted plan: one DebtForgiveness row each,
+ * plus the ledger adjustments that take the amount off both balances.
+ */
+export async function recordForgiveness(
+  tx: Prisma.TransactionClient,
+  plan: { id: string; groupId: string; currency: string },
+  forgiven: PlannedForgiveness[]
+) {
+  for (const item of forgiven) {
+    const record = await tx.debtForgiveness.create({
+      data: {
+        groupId: plan.groupId,
+        planId: plan.id,
+        debtorId: item.debtor,
+        creditorId: item.creditor,
+        amount: item.amount,
+        currency: plan.currency,
+        approvedBy: item.approvedBy,
+      },
+    });
+
+    await appendLedgerEntries(
+      tx,
+      {
+        groupId: plan.groupId,
+        currency: plan.currency,
+        type: 'forgiveness',
+        referenceType: 'forgiveness',
+        referenceId: record.id,
+        description: 'Forgiven under the group policy',
+      },
+      [{ debtorId: item.debtor, creditorId: item.creditor, amount: item.amount }]
+    );
+  }
+}
@@ -0,0 +1,353 @@
+import { Prisma } from '@prisma/client';
+import { requireGroupAdmin, requireGroupMember } from '@/lib/authz';
+import { prisma } from '@/lib/db';
+import { groupDebtsWhere } from '@/lib/debts';
+import { ServiceError } from '@/lib/errors';
+import { appendLedgerEntries, getGroupBalances } from '@/lib/ledger';
+import { toMajor } from '@/lib/money';
+import { invalidateSettlementPlans } from '@/lib/settlement-plans';
+
+export interface UpdateGroupInput {
+  name?: string;
+  description?: string | null;
+  currency?: string;
+  imageUrl?: string | null;
+  archived?: boolean;
+}
+
+/**
+ * Throw a 409 if the group is archived and can no longer change
+ */
+export async function requireActiveGroup(groupId: string) {
+  const group = await prisma.group.findUnique({
+    where: { id: groupId },
+    select: { archivedAt: true },
+  });
+
+  if (!group) {
+    throw new ServiceError('Group not found', 404);
+  }
+
+  if (group.archivedAt) {
+    throw new ServiceError('Group is archived', 409);
+  }
+}
+
+/**
+ * A group with its members, their roles and balances, amounts in major units
+ */
+export async function getGroupDetails(groupId: string, requestedBy: string) {
+  await requireGroupMember(groupId, requestedBy);
+
+  const group = await prisma.group.findUniqueOrThrow({
+    where: { id: groupId },
+    include: {
+      members: {
+        include: { user: { select: { id: true, name: true, email: true, image: true } } },
+        orderBy: { joinedAt: 'asc' },
+      },
+    },
+  });
+
+  const balances = await memberBalances(groupId);
+
+  return {
+    ...group,
+    archived: group.archivedAt !== null,
+    members: group.members.map(m => ({
+      userId: m.userId,
+      role: m.role,
+      joinedAt: m.joinedAt,
+      user: m.user,
+      balances: balances
+        .filter(b => b.balances[m.userId])
+        .map(b => ({ currency: b.currency, amount: toMajor(b.balances[m.userId], b.currency) })),
+    })),
+  };
+}
+
+/**
+ * Rename, describe, re-image, re-currency or (un)archive a group. Admins only.
+ * The currency can only change before any expense has been split in it,
+ * since split receipts and the ledger are kept in the group's currency.
+ */
+export async function updateGroup(groupId: string, input: UpdateGroupInput, requestedBy: string) {
+  await requireGroupAdmin(groupId, requestedBy);
+
+  const group = await prisma.group.findUniqueOrThrow({ where: { id: groupId } });
+  const currency = input.currency?.toUpperCase();
+
+  if (group.archivedAt && input.archived !== false) {
+    throw new ServiceError('Unarchive the group before changing it', 409);
+  }
+
+  if (currency && currency !== group.currency) {
+    const splitReceipts = await prisma.split.count({ where: { receipt: { groupId } } });
+    const ledgerEntries = await prisma.ledgerEntry.count({ where: { groupId } });
+    if (splitReceipts > 0 || ledgerEntries > 0) {
+      throw new ServiceError(
+        'The currency can only be changed before any expense is split in the group',
+        409
+      );
+    }
+  }
+
+  return prisma.$transaction(async tx => {
+    const updated = await tx.group.update({
+      where: { id: groupId },
+      data: {
+        name: input.name,
+        description: input.description,
+        imageUrl: input.imageUrl,
+        currency,
+        ...(input.archived !== undefined && {
+          archivedAt: input.archived ? group.archivedAt ?? new Date() : null,
+        }),
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: requestedBy,
+        action: 'group_update',
+        resource: 'groups',
+        resourceId: groupId,
+        metadata: {
+          changes: Object.keys(input).filter(
+            key => input[key as keyof UpdateGroupInput] !== undefined
+          ),
+        } as Prisma.InputJsonValue,
+        success: true,
+      },
+    });
+
+    return { ...updated, archived: updated.archivedAt !== null };
+  });
+}
+
+/**
+ * Hand the admin role to another member; the current admin becomes a member
+ */
+export async function transferAdmin(groupId: string, toUserId: string, requestedBy: string) {
+  await requireGroupAdmin(groupId, requestedBy);
+
+  if (toUserId === requestedBy) {
+    throw new ServiceError('You are already an admin of this group');
+  }
+
+  await prisma.$transaction(async tx => {
+    const target = await tx.groupMember.findUnique({
+      where: { userId_groupId: { userId: toUserId, groupId } },
+    });
+    if (!target) {
+      throw new ServiceError('The new admin must be a member of the group', 400);
+    }
+
+    await tx.groupMember.update({ where: { id: target.id }, data: { role: 'admin' } });
+    await tx.groupMember.update({
+      where: { userId_groupId: { userId: requestedBy, groupId } },
+      data: { role: 'member' },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: requestedBy,
+        action: 'group_admin_transfer',
+        resource: 'groups',
+        resourceId: groupId,
+        metadata: { toUserId },
+        success: true,
+      },
+    });
+  });
+
+  return getGroupDetails(groupId, requestedBy);
+}
+
+/**
+ * Take a member out of the group: an admin removing someone, or a member leaving
+ * (userId === requestedBy). A member who still owes or is owed money can only go
+ * once that is settled, or if `reassignTo` takes over their balance and open debts.
+ */
+export async function removeMember(
+  groupId: string,
+  userId: string,
+  requestedBy: string,
+  reassignTo?: string
+) {
+  const leaving = userId === requestedBy;
+  if (leaving) {
+    await requireGroupMember(groupId, requestedBy);
+  } else {
+    await requireGroupAdmin(groupId, requestedBy);
+  }
+
+  const membership = await prisma.groupMember.findUnique({
+    where: { userId_groupId: { userId, groupId } },
+  });
+  if (!membership) {
+    throw new ServiceError('Member not found', 404);
+  }
+
+  const members = await prisma.groupMember.findMany({ where: { groupId } });
+  if (members.length === 1) {
+    throw new ServiceError('You are the last member, delete the group instead', 409);
+  }
+  const otherAdmins = members.filter(m => m.role === 'admin' && m.userId !== userId);
+  if (membership.role === 'admin' && otherAdmins.length === 0) {
+    throw new ServiceError('Transfer the admin role to someone else first', 409);
+  }
+
+  if (reassignTo !== undefined) {
+    if (reassignTo === userId || !members.some(m => m.userId === reassignTo)) {
+      throw new ServiceError('Balances can only be reassigned to another member of the group');
+    }
+  }
+
+  const pending = await prisma.transaction.count({
+    where: {
+      groupId,
+      status: 'pending',
+      OR: [{ fromUserId: userId }, { toUserId: userId }],
+    },
+  });
+  if (pending > 0) {
+    throw new ServiceError('Confirm, dispute or cancel pending payments first', 409);
+  }
+
+  const outstanding = (await memberBalances(groupId))
+    .filter(b => b.balances[userId])
+    .map(b => ({ currency: b.currency, amount: b.balances[userId] }));
+
+  // Debts can net to zero and still be open (owing one member what another owes
+  // them); nobody could settle them once the member is gone
+  const openDebts = await prisma.debt.count({
+    where: {
+      AND: [
+        groupDebtsWhere(groupId),
+        { settled: false, OR: [{ debtorId: userId }, { creditorId: userId }] },
+      ],
+    },
+  });
+
+  if ((outstanding.length > 0 || openDebts > 0) && !reassignTo) {
+    throw new ServiceError('Settle up or reassign the balance before leaving the group', 409, {
+      balances: outstanding.map(b => ({ ...b, amount: toMajor(b.amount, b.currency) })),
+      openDebts,
+    });
+  }
+
+  await prisma.$transaction(async tx => {
+    if (reassignTo && (outstanding.length > 0 || openDebts > 0)) {
+      await reassignBalance(tx, groupId, userId, reassignTo, outstanding);
+    }
+
+    await tx.groupMember.delete({ where: { id: membership.id } });
+
+    await tx.auditLog.create({
+      data: {
+        userId: requestedBy,
+        action: leaving ? 'group_leave' : 'group_member_remove',
+        resource: 'groups',
+        resourceId: groupId,
+        metadata: { userId, reassignTo: reassignTo ?? null },
+        success: true,
+      },
+    });
+  });
+}
+
+/**
+ * Delete a group and everything in it. Admins only, and only once nobody
+ * owes anybody anything.
+ */
+export async function deleteGroup(groupId: string, requestedBy: string) {
+  await requireGroupAdmin(groupId, requestedBy);
+
+  const unsettled = (await memberBalances(groupId)).some(b =>
+    Object.values(b.balances).some(amount => amount !== 0)
+  );
+  if (unsettled) {
+    throw new ServiceError('Settle all balances before deleting the group', 409);
+  }
+
+  await prisma.$transaction(async tx => {
+    // Receipts (and the splits and debts under them) don't cascade with the group
+    await tx.receipt.deleteMany({ where: { groupId } });
+    await tx.group.delete({ where: { id: groupId } });
+
+    await tx.auditLog.create({
+      data: {
+        userId: requestedBy,
+        action: 'group_delete',
+        resource: 'groups',
+        resourceId: groupId,
+        success: true,
+      },
+    });
+  });
+}
+
+function memberBalances(groupId: string) {
+  return getGroupBalances({ groupIds: [groupId] });
+}
+
+/**
+ * Move a member's balance and open debts onto someone else in the group.
+ * Debts between the two of them cancel out and are closed.
+ */
+async function reassignBalance(
+  tx: Prisma.TransactionClient,
+  groupId: string,
+  fromUserId: string,
+  toUserId: string,
+  balances: { currency: string; amount: number }[]
+) {
+  const debts = await tx.debt.findMany({
+    where: {
+      AND: [
+        groupDebtsWhere(groupId),
+        { settled: false, OR: [{ debtorId: fromUserId }, { creditorId: fromUserId }] },
+      ],
+    },
+  });
+
+  const now = new Date();
+  for (const debt of debts) {
+    const debtorId = debt.debtorId === fromUserId ? toUserId : debt.debtorId;
+    const creditorId = debt.creditorId === fromUserId ? toUserId : debt.creditorId;
+
+    const { count } = await tx.debt.updateMany({
+      where: { id: debt.id, settled: false, amount: debt.amount },
+      data:
+        debtorId === creditorId
+          ? { settled: true, settledAt: now, supersededAt: now }
+          : { debtorId, creditorId },
+    });
+    if (count === 0) {
+      throw new ServiceError('Debts changed while the balance was being reassigned, try again', 409);
+    }
+  }
+
+  // A negative balance (owing) is taken on by the new member, a positive one is handed over
+  for (const balance of balances) {
+    await appendLedgerEntries(
+      tx,
+      {
+        groupId,
+        currency: balance.currency,
+        type: 'balance_transfer',
+        referenceType: 'group_member',
+        referenceId: fromUserId,
+        description: 'Balance reassigned when leaving the group',
+      },
+      [
+        balance.amount < 0
+          ? { debtorId: fromUserId, creditorId: toUserId, amount: -balance.amount }
+          : { debtorId: toUserId, creditorId: fromUserId, amount: balance.amount },
+      ]
+    );
+  }
+
+  await invalidateSettlementPlans(tx, groupId, 'A member left the group');
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ServiceError } from '@/lib/errors';
+
+/**
+ * JSON response for an error thrown in a route handler: validation errors are
+ * 400s, ServiceErrors keep their status, anything else is a 500
+ */
+export function errorResponse(error: unknown) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+  }
+
+  if (error instanceof ServiceError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.status }
+    );
+  }
+
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+export interface ClientInfo {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * Who is on the other end of a request, for audit logs and device lists
+ */
+export function clientInfo(headers: Headers): ClientInfo {
+  const forwarded = headers.get('x-forwarded-for')?.split(',')[0].trim();
+
+  return {
+    ipAddress: forwarded || headers.get('x-real-ip') || null,
+    userAgent: headers.get('user-agent'),
+  };
+}
@@ -0,0 +1,256 @@
+import { createHash, randomBytes } from 'crypto';
+import { requireGroupAdmin } from '@/lib/authz';
+import { prisma } from '@/lib/db';
+import { appUrl, sendEmail } from '@/lib/email';
+import { ServiceError } from '@/lib/errors';
+import { requireActiveGroup } from '@/lib/groups';
+
+// Invites live in the VerificationToken table under identifiers like
+// "group-invite:<groupId>:<email>" (or "...:link" for open links). Only a hash of
+// the token is stored; that hash doubles as the invite's id for revoking it.
+const INVITE_PREFIX = 'group-invite';
+const LINK_AUDIENCE = 'link';
+
+export const DEFAULT_INVITE_DAYS = 7;
+
+export interface CreateInviteInput {
+  groupId: string;
+  email?: string; // Only this address can accept; omit for a shareable link
+  expiresInDays?: number;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function parseIdentifier(identifier: string) {
+  const [prefix, groupId, ...rest] = identifier.split(':');
+  if (prefix !== INVITE_PREFIX || !groupId) return null;
+
+  const audience = rest.join(':');
+  return { groupId, email: audience === LINK_AUDIENCE ? null : audience };
+}
+
+/**
+ * Create a single-use invite. The raw token is returned once, for the link;
+ * it cannot be recovered later. Invites for an address are also emailed there.
+ */
+export async function createInvite(input: CreateInviteInput, requestedBy: string) {
+  await requireGroupAdmin(input.groupId, requestedBy);
+  await requireActiveGroup(input.groupId);
+
+  const email = input.email?.trim().toLowerCase();
+  if (email) {
+    const existing = await prisma.groupMember.findFirst({
+      where: { groupId: input.groupId, user: { email } },
+    });
+    if (existing) {
+      throw new ServiceError('That person is already a member of the group', 409);
+    }
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const expires = new Date(
+    Date.now() + (input.expiresInDays ?? DEFAULT_INVITE_DAYS) * 24 * 60 * 60 * 1000
+  );
+
+  const invite = await prisma.$transaction(async tx => {
+    const created = await tx.verificationToken.create({
+      data: {
+        identifier: `${INVITE_PREFIX}:${input.groupId}:${email ?? LINK_AUDIENCE}`,
+        token: hashToken(token),
+        expires,
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: requestedBy,
+        action: 'group_invite_create',
+        resource: 'groups',
+        resourceId: input.groupId,
+        metadata: { inviteId: created.token, email: email ?? null, expires },
+        success: true,
+      },
+    });
+
+    return created;
+  });
+
+  if (email) {
+    await emailInvite(input.groupId, email, token, requestedBy);
+  }
+
+  return { id: invite.token, token, email: email ?? null, expires: invite.expires };
+}
+
+// A failed email doesn't undo the invite; the admin still gets the link to share
+async function emailInvite(groupId: string, email: string, token: string, invitedBy: string) {
+  try {
+    const [group, inviter] = await Promise.all([
+      prisma.group.findUniqueOrThrow({ where: { id: groupId }, select: { name: true } }),
+      prisma.user.findUnique({ where: { id: invitedBy }, select: { name: true, email: true } }),
+    ]);
+
+    await sendEmail({
+      to: email,
+      subject: `You're invited to ${group.name} on FairSplit AI`,
+      text:
+        `${inviter?.name || inviter?.email || 'Someone'} invited you to split expenses in ` +
+        `"${group.name}".\n\nJoin the group here:\n${appUrl(`/invite/${token}`)}`,
+    });
+  } catch (error) {
+    console.error('Invite email error:', error);
+  }
+}
+
+/**
+ * Invites that have not been used, revoked or expired yet
+ */
+export async function listInvites(groupId: string, requestedBy: string) {
+  await requireGroupAdmin(groupId, requestedBy);
+
+  const invites = await prisma.verificationToken.findMany({
+    where: {
+      identifier: { startsWith: `${INVITE_PREFIX}:${groupId}:` },
+      expires: { gt: new Date() },
+    },
+    orderBy: { expires: 'asc' },
+  });
+
+  return invites.map(invite => ({
+    id: invite.token,
+    email: parseIdentifier(invite.identifier)?.email ?? null,
+    expires: invite.expires,
+  }));
+}
+
+/**
+ * Withdraw a pending invite so its link stops working
+ */
+export async function revokeInvite(groupId: string, inviteId: string, requestedBy: string) {
+  await requireGroupAdmin(groupId, requestedBy);
+
+  await prisma.$transaction(async tx => {
+    const { count } = await tx.verificationToken.deleteMany({
+      where: { token: inviteId, identifier: { startsWith: `${INVITE_PREFIX}:${groupId}:` } },
+    });
+    if (count === 0) {
+      throw new ServiceError('Invite not found', 404);
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId: requestedBy,
+        action: 'group_invite_revoke',
+        resource: 'groups',
+        resourceId: groupId,
+        metadata: { inviteId },
+        success: true,
+      },
+    });
+  });
+}
+
+async function findInvite(token: string) {
+  const invite = await prisma.verificationToken.findUnique({
+    where: { token: hashToken(token) },
+  });
+  const parsed = invite && parseIdentifier(invite.identifier);
+
+  if (!invite || !parsed) {
+    throw new ServiceError('Invite not found or already used', 404);
+  }
+
+  if (invite.expires <= new Date()) {
+    await prisma.verificationToken.deleteMany({ where: { token: invite.token } });
+    throw new ServiceError('Invite has expired', 410);
+  }
+
+  return { ...parsed, id: invite.token, expires: invite.expires };
+}
+
+/**
+ * What an invite link is for, so the invitee can see it before accepting
+ */
+export async function getInvite(token: string) {
+  const invite = await findInvite(token);
+
+  const group = await prisma.group.findUnique({
+    where: { id: invite.groupId },
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      imageUrl: true,
+      _count: { select: { members: true } },
+    },
+  });
+
+  if (!group) {
+    throw new ServiceError('Invite not found or already used', 404);
+  }
+
+  const { _count, ...details } = group;
+  return {
+    group: { ...details, memberCount: _count.members },
+    email: invite.email,
+    expires: invite.expires,
+  };
+}
+
+/**
+ * Join the group an invite is for. The invite is used up in the same
+ * database transaction, so a link can only ever add one member.
+ */
+export async function acceptInvite(token: string, userId: string) {
+  const invite = await findInvite(token);
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, emailVerified: true },
+  });
+  if (!user) {
+    throw new ServiceError('User not found', 404);
+  }
+
+  if (invite.email && invite.email !== user.email.toLowerCase()) {
+    throw new ServiceError('This invite was sent to a different email address', 403);
+  }
+  if (invite.email && !user.emailVerified) {
+    throw new ServiceError('Verify your email address before accepting this invite', 403);
+  }
+
+  await requireActiveGroup(invite.groupId);
+
+  return prisma.$transaction(async tx => {
+    const { count } = await tx.verificationToken.deleteMany({ where: { token: invite.id } });
+    if (count === 0) {
+      throw new ServiceError('Invite not found or already used', 404);
+    }
+
+    const existing = await tx.groupMember.findUnique({
+      where: { userId_groupId: { userId, groupId: invite.groupId } },
+    });
+    if (existing) {
+      throw new ServiceError('You are already a member of this group', 409);
+    }
+
+    const member = await tx.groupMember.create({
+      data: { groupId: invite.groupId, userId, role: 'member' },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'group_invite_accept',
+        resource: 'groups',
+        resourceId: invite.groupId,
+        metadata: { inviteId: invite.id },
+        success: true,
+      },
+    });
+
+    return member;
+  });
+}
@@ -0,0 +1,177 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { groupDebtsWhere } from '@/lib/debts';
+
+export type LedgerEntryType =
+  | 'opening_balance'
+  | 'expense'
+  | 'expense_reversal'
+  | 'payment'
+  | 'forgiveness'
+  | 'balance_transfer';
+
+export interface LedgerEvent {
+  groupId: string;
+  currency: string;
+  type: LedgerEntryType;
+  referenceType?: 'receipt' | 'transaction' | 'debt' | 'forgiveness' | 'group_member';
+  referenceId?: string;
+  description?: string;
+  createdAt?: Date; // Only for backfilling history; live events use now
+}
+
+export interface DebtMovement {
+  debtorId: string;
+  creditorId: string;
+  amount: number; // Minor units
+}
+
+/**
+ * Append the balance changes for an event: one entry for each side of each debt.
+ * Expenses add to what debtors owe; every other event takes it away.
+ * Only events that move someone's net balance belong here, so plan acceptance
+ * and loop cancellation (which net to zero per person) are not recorded.
+ */
+export async function appendLedgerEntries(
+  tx: Prisma.TransactionClient,
+  event: LedgerEvent,
+  movements: DebtMovement[]
+) {
+  const sign = event.type === 'expense' || event.type === 'opening_balance' ? 1 : -1;
+
+  const data = movements
+    .filter(m => m.amount !== 0)
+    .flatMap(m => [
+      { userId: m.debtorId, counterpartyId: m.creditorId, amount: -sign * m.amount },
+      { userId: m.creditorId, counterpartyId: m.debtorId, amount: sign * m.amount },
+    ])
+    .map(entry => ({
+      ...entry,
+      groupId: event.groupId,
+      currency: event.currency,
+      type: event.type,
+      referenceType: event.referenceType,
+      referenceId: event.referenceId,
+      description: event.description,
+      createdAt: event.createdAt,
+    }));
+
+  if (data.length > 0) {
+    await tx.ledgerEntry.createMany({ data });
+  }
+}
+
+/**
+ * Cancel out everything a receipt has put on the ledger so far, before it is split again
+ */
+export async function reverseReceiptEntries(tx: Prisma.TransactionClient, receiptId: string) {
+  const sums = await tx.ledgerEntry.groupBy({
+    by: ['groupId', 'currency', 'userId', 'counterpartyId'],
+    where: { referenceType: 'receipt', referenceId: receiptId },
+    _sum: { amount: true },
+  });
+
+  const data = sums
+    .filter(row => row._sum.amount)
+    .map(row => ({
+      groupId: row.groupId,
+      currency: row.currency,
+      userId: row.userId,
+      counterpartyId: row.counterpartyId,
+      amount: -row._sum.amount!,
+      type: 'expense_reversal',
+      referenceType: 'receipt',
+      referenceId: receiptId,
+      description: 'Split replaced',
+    }));
+
+  if (data.length > 0) {
+    await tx.ledgerEntry.createMany({ data });
+  }
+}
+
+export interface GroupBalance {
+  groupId: string;
+  currency: string;
+  balances: Record<string, number>; // userId -> minor units, positive when owed
+}
+
+/**
+ * Replay the ledger into per-member balances for each group, optionally as of a date
+ */
+export async function getGroupBalances(
+  filter: { groupIds?: string[]; userId?: string } = {},
+  asOf?: Date
+): Promise<GroupBalance[]> {
+  const sums = await prisma.ledgerEntry.groupBy({
+    by: ['groupId', 'currency', 'userId'],
+    where: {
+      ...(filter.groupIds && { groupId: { in: filter.groupIds } }),
+      ...(filter.userId && { userId: filter.userId }),
+      ...(asOf && { createdAt: { lte: asOf } }),
+    },
+    _sum: { amount: true },
+  });
+
+  const groups = new Map<string, GroupBalance>();
+  for (const row of sums) {
+    const key = `${row.groupId}:${row.currency}`;
+    const group = groups.get(key) || {
+      groupId: row.groupId,
+      currency: row.currency,
+      balances: {},
+    };
+    group.balances[row.userId] = row._sum.amount || 0;
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Total that still has to change hands for a group to be settled up
+ */
+export function outstandingAmount(group: GroupBalance): number {
+  return Object.values(group.balances).reduce((sum, b) => sum + Math.max(b, 0), 0);
+}
+
+/**
+ * Give groups that predate the ledger an opening balance: one entry pair per
+ * debt still open, dated when the debt was created. Groups that already have
+ * entries are left alone, so this is safe to run more than once.
+ */
+export async function backfillLedger(): Promise<number> {
+  const groups = await prisma.group.findMany({
+    where: { ledgerEntries: { none: {} } },
+    select: { id: true, currency: true },
+  });
+
+  let written = 0;
+  for (const group of groups) {
+    const debts = await prisma.debt.findMany({
+      where: { ...groupDebtsWhere(group.id), settled: false },
+      include: { split: { select: { receiptId: true } } },
+    });
+    if (debts.length === 0) continue;
+
+    await prisma.$transaction(async tx => {
+      for (const debt of debts) {
+        await appendLedgerEntries(
+          tx,
+          {
+            groupId: group.id,
+            currency: group.currency,
+            type: 'opening_balance',
+            referenceType: debt.split ? 'receipt' : 'debt',
+            referenceId: debt.split ? debt.split.receiptId : debt.id,
+            createdAt: debt.createdAt,
+          },
+          [{ debtorId: debt.debtorId, creditorId: debt.creditorId, amount: debt.amount }]
+        );
+      }
+    });
+    written += debts.length;
+  }
+
+  return written;
+}
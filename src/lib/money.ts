@@ -0,0 +1,167 @@
+/**
+ * Number of minor units (decimal places) a currency uses, e.g. 2 for USD, 0 for JPY
+ */
+export function minorUnitDigits(currency: string): number {
+  try {
+    return (
+      new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions()
+        .maximumFractionDigits ?? 2
+    );
+  } catch {
+    return 2;
+  }
+}
+
+/**
+ * Split an integer amount by weight.
+ * Leftover units go to the largest fractional remainders, ties to the earlier entry,
+ * so the parts always sum to the total and the result is deterministic.
+ */
+export function allocateMinor(total: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (weights.length === 0 || totalWeight <= 0) {
+    throw new Error('Cannot allocate an amount without positive weights');
+  }
+
+  // Allocate the magnitude so negative amounts round the same way as positive ones
+  const sign = total < 0 ? -1 : 1;
+  const magnitude = Math.abs(total);
+
+  const exact = weights.map(w => (magnitude * w) / totalWeight);
+  const parts = exact.map(Math.floor);
+  let leftover = magnitude - parts.reduce((sum, p) => sum + p, 0);
+
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (let i = 0; leftover > 0; i = (i + 1) % order.length, leftover--) {
+    parts[order[i].index]++;
+  }
+
+  return parts.map(p => p * sign);
+}
+
+/**
+ * Money amount stored as an integer number of minor units plus a currency code.
+ * All ledger arithmetic goes through this type so balances never drift.
+ */
+export class Money {
+  readonly minor: number;
+  readonly currency: string;
+
+  private constructor(minor: number, currency: string) {
+    if (!Number.isSafeInteger(minor)) {
+      throw new Error(`Money must be a whole number of minor units, got ${minor}`);
+    }
+    this.minor = minor;
+    this.currency = currency.toUpperCase();
+  }
+
+  /**
+   * Create from minor units (e.g. cents)
+   */
+  static of(minor: number, currency: string = 'USD'): Money {
+    return new Money(minor, currency);
+  }
+
+  /**
+   * Create from a major-unit amount (e.g. dollars), rounding to the nearest minor unit
+   */
+  static fromMajor(amount: number, currency: string = 'USD'): Money {
+    const factor = Math.pow(10, minorUnitDigits(currency));
+    return new Money(Math.round(amount * factor), currency);
+  }
+
+  static zero(currency: string = 'USD'): Money {
+    return new Money(0, currency);
+  }
+
+  static sum(values: Money[], currency: string = 'USD'): Money {
+    return values.reduce((total, value) => total.add(value), Money.zero(currency));
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.minor + other.minor, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.minor - other.minor, this.currency);
+  }
+
+  negate(): Money {
+    return new Money(-this.minor, this.currency);
+  }
+
+  abs(): Money {
+    return new Money(Math.abs(this.minor), this.currency);
+  }
+
+  isZero(): boolean {
+    return this.minor === 0;
+  }
+
+  isPositive(): boolean {
+    return this.minor > 0;
+  }
+
+  isNegative(): boolean {
+    return this.minor < 0;
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.minor === other.minor;
+  }
+
+  compare(other: Money): number {
+    this.assertSameCurrency(other);
+    return this.minor - other.minor;
+  }
+
+  /**
+   * Split by weight without losing or creating a single minor unit
+   */
+  allocate(weights: number[]): Money[] {
+    return allocateMinor(this.minor, weights).map(minor => new Money(minor, this.currency));
+  }
+
+  /**
+   * Amount in major units, for display and API responses
+   */
+  toMajor(): number {
+    return this.minor / Math.pow(10, minorUnitDigits(this.currency));
+  }
+
+  format(locale: string = 'en-US'): string {
+    const digits = minorUnitDigits(this.currency);
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: this.currency,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    }).format(this.toMajor());
+  }
+
+  toString(): string {
+    return this.format();
+  }
+
+  toJSON(): { amount: number; currency: string } {
+    return { amount: this.toMajor(), currency: this.currency };
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new Error(`Currency mismatch: ${this.currency} vs ${other.currency}`);
+    }
+  }
+}
+
+/**
+ * Convert stored minor units to a major-unit number for API responses
+ */
+export function toMajor(minor: number, currency: string = 'USD'): number {
+  return Money.of(minor, currency).toMajor();
+}
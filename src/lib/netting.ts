@@ -0,0 +1,335 @@
+import { Prisma, Transaction as TransactionRecord } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import { appendLedgerEntries } from '@/lib/ledger';
+import { Money, toMajor } from '@/lib/money';
+import { autoConfirmDate } from '@/lib/payments';
+import { completeSettledPlans } from '@/lib/settlement-plans';
+import { markConfirmed } from '@/lib/settlements';
+import { emitPaymentEvents } from '@/lib/webhooks';
+
+const GROUP_SELECT = { id: true, name: true, currency: true } as const;
+
+// Enough to tell which group (and so which currency) an open debt belongs to
+const DEBT_GROUP_INCLUDE = {
+  split: { select: { receipt: { select: { group: { select: GROUP_SELECT } } } } },
+  plan: { select: { group: { select: GROUP_SELECT } } },
+} satisfies Prisma.DebtInclude;
+
+type DebtWithGroup = Prisma.DebtGetPayload<{ include: typeof DEBT_GROUP_INCLUDE }>;
+
+function debtGroup(debt: DebtWithGroup) {
+  return debt.split?.receipt.group ?? debt.plan?.group ?? null;
+}
+
+/**
+ * Turn cross-group netting on or off for a user
+ */
+export async function setCrossGroupNetting(userId: string, enabled: boolean) {
+  await prisma.user.update({ where: { id: userId }, data: { crossGroupNetting: enabled } });
+}
+
+/**
+ * What the user and each other opted-in person owe each other, netted across
+ * every group they share. One entry per person and currency, positive when
+ * the other person owes the user.
+ */
+export async function getCrossGroupBalances(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { crossGroupNetting: true },
+  });
+
+  if (!user?.crossGroupNetting) {
+    throw new ServiceError('Cross-group netting is turned off for your account', 403);
+  }
+
+  const debts = await prisma.debt.findMany({
+    where: {
+      settled: false,
+      OR: [
+        { debtorId: userId, creditor: { crossGroupNetting: true } },
+        { creditorId: userId, debtor: { crossGroupNetting: true } },
+      ],
+    },
+    include: {
+      ...DEBT_GROUP_INCLUDE,
+      debtor: { select: { id: true, name: true, email: true } },
+      creditor: { select: { id: true, name: true, email: true } },
+    },
+  });
+
+  const pairs = new Map<
+    string,
+    {
+      person: { id: string; name: string | null; email: string };
+      currency: string;
+      groups: Map<string, { groupId: string; name: string; net: number }>;
+    }
+  >();
+
+  for (const debt of debts) {
+    const group = debtGroup(debt);
+    if (!group) continue;
+
+    const person = debt.debtorId === userId ? debt.creditor : debt.debtor;
+    const signed = debt.debtorId === userId ? -debt.amount : debt.amount;
+    const key = `${person.id}:${group.currency}`;
+
+    const pair = pairs.get(key) || { person, currency: group.currency, groups: new Map() };
+    const entry = pair.groups.get(group.id) || { groupId: group.id, name: group.name, net: 0 };
+    entry.net += signed;
+    pair.groups.set(group.id, entry);
+    pairs.set(key, pair);
+  }
+
+  return Array.from(pairs.values()).map(pair => {
+    const groups = Array.from(pair.groups.values());
+    const net = groups.reduce((sum, g) => sum + g.net, 0);
+    const major = (minor: number) => toMajor(minor, pair.currency);
+
+    return {
+      person: pair.person,
+      currency: pair.currency,
+      net: major(net),
+      direction: net > 0 ? 'owes_you' : net < 0 ? 'you_owe' : 'even',
+      transfersWithoutNetting: groups.filter(g => g.net !== 0).length,
+      groups: groups.map(g => ({ ...g, net: major(g.net) })),
+    };
+  });
+}
+
+/**
+ * Record one payment that settles everything between two people in a currency,
+ * across all their shared groups. Like a group payment it stays pending until
+ * the recipient confirms it, unless the recipient is the one recording it.
+ */
+export async function settleAcrossGroups(
+  input: { counterpartId: string; currency: string; amount: number; paymentMethod?: string },
+  requestedBy: string
+) {
+  const currency = input.currency.toUpperCase();
+
+  if (input.counterpartId === requestedBy) {
+    throw new ServiceError('Cannot record a payment to yourself');
+  }
+
+  const people = await prisma.user.findMany({
+    where: { id: { in: [requestedBy, input.counterpartId] } },
+    select: { id: true, crossGroupNetting: true },
+  });
+  if (people.length !== 2 || people.some(p => !p.crossGroupNetting)) {
+    throw new ServiceError('Both people must have cross-group netting turned on', 403);
+  }
+
+  const payment = Money.fromMajor(input.amount, currency);
+
+  const result = await prisma.$transaction(async tx => {
+    const debts = await findPairDebts(tx, requestedBy, input.counterpartId, currency);
+
+    if (debts.length === 0) {
+      throw new ServiceError('Nothing is owed between you in this currency', 404);
+    }
+
+    // Positive: the counterpart owes the requester overall
+    const owedToRequester = debts.reduce(
+      (sum, d) => sum + (d.creditorId === requestedBy ? d.amount : -d.amount),
+      0
+    );
+    const payerId = owedToRequester > 0 ? input.counterpartId : requestedBy;
+    const payeeId = payerId === requestedBy ? input.counterpartId : requestedBy;
+
+    if (payment.minor !== Math.abs(owedToRequester)) {
+      throw new ServiceError('Payment must match the netted balance', 422, {
+        netted: toMajor(Math.abs(owedToRequester), currency),
+        currency,
+        payerId,
+      });
+    }
+
+    // Group payments count too: confirming one changes what the netted payment has to cover
+    const waiting = await tx.transaction.count({
+      where: {
+        currency,
+        status: 'pending',
+        OR: [
+          { fromUserId: payerId, toUserId: payeeId },
+          { fromUserId: payeeId, toUserId: payerId },
+        ],
+      },
+    });
+    if (waiting > 0) {
+      throw new ServiceError('A payment between you is already waiting for confirmation', 409);
+    }
+
+    const groupIds = Array.from(new Set(debts.map(d => debtGroup(d)!.id)));
+    const sentAt = new Date();
+    const transaction = await tx.transaction.create({
+      data: {
+        amount: payment.minor,
+        currency,
+        status: 'pending',
+        netted: true,
+        fromUserId: payerId,
+        toUserId: payeeId,
+        description: `Netted across ${groupIds.length} group${groupIds.length === 1 ? '' : 's'}`,
+        paymentMethod: input.paymentMethod,
+        sentAt,
+        autoConfirmAt: autoConfirmDate(sentAt),
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: requestedBy,
+        action: 'payment_sent',
+        resource: 'transactions',
+        resourceId: transaction.id,
+        metadata: { groupIds, amount: payment.minor, currency, netted: true },
+        success: true,
+      },
+    });
+
+    if (requestedBy !== payeeId) {
+      return { transaction, debts, groupIds };
+    }
+
+    return applyNettedPayment(tx, transaction, requestedBy);
+  });
+
+  // Recorded by the recipient, so confirmed on the spot
+  if (result.transaction.status === 'completed') {
+    await emitPaymentEvents(result.transaction);
+  }
+
+  const major = (minor: number) => toMajor(minor, currency);
+
+  return {
+    transaction: { ...result.transaction, amount: major(result.transaction.amount) },
+    groups: result.groupIds.map(groupId => {
+      const debts = result.debts.filter(d => debtGroup(d)!.id === groupId);
+      return {
+        groupId,
+        name: debtGroup(debts[0])!.name,
+        debts: debts.map(d => ({
+          debtId: d.id,
+          debtorId: d.debtorId,
+          creditorId: d.creditorId,
+          amount: major(d.amount),
+          netted: d.debtorId !== result.transaction.fromUserId,
+        })),
+      };
+    }),
+  };
+}
+
+/**
+ * Confirm a pending netted payment: settle every open debt between the two
+ * people in its currency, as long as they still net to the amount sent.
+ * `confirmedBy` is null when the payment is confirmed automatically.
+ */
+export async function applyNettedPayment(
+  tx: Prisma.TransactionClient,
+  transaction: TransactionRecord,
+  confirmedBy: string | null
+) {
+  const payerId = transaction.fromUserId;
+  const debts = await findPairDebts(tx, payerId, transaction.toUserId, transaction.currency);
+
+  const owedByPayer = debts.reduce(
+    (sum, d) => sum + (d.debtorId === payerId ? d.amount : -d.amount),
+    0
+  );
+  if (owedByPayer !== transaction.amount) {
+    throw new ServiceError('Balances changed since the payment was sent', 409, {
+      netted: toMajor(Math.max(owedByPayer, 0), transaction.currency),
+      currency: transaction.currency,
+    });
+  }
+
+  const settledAt = new Date();
+  for (const debt of debts) {
+    const { count } = await tx.debt.updateMany({
+      where: { id: debt.id, settled: false, amount: debt.amount },
+      data: { settled: true, settledAt },
+    });
+    if (count === 0) {
+      throw new ServiceError('Debts changed while the payment was being recorded, try again', 409);
+    }
+
+    await tx.debtPayment.create({
+      data: {
+        debtId: debt.id,
+        transactionId: transaction.id,
+        amount: debt.amount,
+        netted: debt.debtorId !== payerId,
+      },
+    });
+  }
+
+  // Each group's ledger sees its own debts cleared
+  const groupIds = Array.from(new Set(debts.map(d => debtGroup(d)!.id)));
+  for (const groupId of groupIds) {
+    const groupDebts = debts.filter(d => debtGroup(d)!.id === groupId);
+    await appendLedgerEntries(
+      tx,
+      {
+        groupId,
+        currency: debtGroup(groupDebts[0])!.currency,
+        type: 'payment',
+        referenceType: 'transaction',
+        referenceId: transaction.id,
+        description: transaction.description || undefined,
+      },
+      groupDebts.map(d => ({ debtorId: d.debtorId, creditorId: d.creditorId, amount: d.amount }))
+    );
+  }
+
+  await completeSettledPlans(
+    tx,
+    debts.map(d => d.planId).filter((id): id is string => id !== null)
+  );
+
+  const confirmed = await markConfirmed(tx, transaction, confirmedBy, settledAt);
+
+  await tx.auditLog.create({
+    data: {
+      userId: confirmedBy,
+      action: 'debt_settle_cross_group',
+      resource: 'debts',
+      resourceId: transaction.id,
+      metadata: {
+        groupIds,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        debtCount: debts.length,
+      },
+      success: true,
+    },
+  });
+
+  return { transaction: confirmed, debts, groupIds };
+}
+
+/**
+ * Open debts either way between two people, in groups using the given currency
+ */
+async function findPairDebts(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  otherId: string,
+  currency: string
+) {
+  const debts = await tx.debt.findMany({
+    where: {
+      settled: false,
+      OR: [
+        { debtorId: userId, creditorId: otherId },
+        { debtorId: otherId, creditorId: userId },
+      ],
+    },
+    include: DEBT_GROUP_INCLUDE,
+  });
+
+  return debts.filter(d => debtGroup(d)?.currency.toUpperCase() === currency.toUpperCase());
+}
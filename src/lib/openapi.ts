@@ -0,0 +1,306 @@
+import {
+  OpenAPIRegistry,
+  OpenApiGeneratorV31,
+  type RouteConfig,
+} from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+import { TOKEN_SCOPES, type TokenScope } from '@/lib/access-tokens';
+import {
+  CreateReceiptSchema,
+  CreateSplitSchema,
+  ListDebtsQuerySchema,
+  ListReceiptsQuerySchema,
+  ListSplitsQuerySchema,
+  ListTransactionsQuerySchema,
+  PageQuerySchema,
+  SettleDebtsSchema,
+  TransactionStatusSchema,
+} from '@/lib/schemas';
+
+// The /api/v1 spec. Request schemas are the ones the routes parse with; the
+// response schemas below describe the serializers in lib/public-api.ts.
+const registry = new OpenAPIRegistry();
+
+const ErrorSchema = z
+  .object({
+    error: z.object({
+      code: z.string().openapi({ example: 'not_found' }),
+      message: z.string(),
+      details: z.unknown().optional(),
+    }),
+  })
+  .openapi('Error');
+
+const MoneyNote = { description: 'Major units, e.g. 12.5' };
+
+const GroupSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().nullable(),
+    currency: z.string(),
+    archived: z.boolean(),
+    createdAt: z.string().datetime(),
+  })
+  .openapi('Group');
+
+const GroupDetailsSchema = GroupSchema.extend({
+  members: z.array(
+    z.object({
+      userId: z.string(),
+      name: z.string().nullable(),
+      email: z.string(),
+      role: z.string(),
+      balances: z.array(z.object({ currency: z.string(), amount: z.number() })),
+    })
+  ),
+}).openapi('GroupDetails');
+
+const ReceiptSchema = z
+  .object({
+    id: z.string(),
+    groupId: z.string().nullable(),
+    merchant: z.string().nullable(),
+    date: z.string().datetime(),
+    currency: z.string(),
+    total: z.number().openapi(MoneyNote),
+    tax: z.number().nullable(),
+    tip: z.number().nullable(),
+    serviceCharge: z.number().nullable(),
+    discount: z.number().nullable(),
+    parsed: z.boolean(),
+    hasImage: z.boolean(),
+    items: z.array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        price: z.number().openapi(MoneyNote),
+        quantity: z.number().int(),
+        category: z.string().nullable(),
+      })
+    ),
+    createdAt: z.string().datetime(),
+  })
+  .openapi('Receipt');
+
+const SplitSchema = z
+  .object({
+    id: z.string(),
+    receiptId: z.string(),
+    userId: z.string().nullable(),
+    paidBy: z.string(),
+    amount: z.number().openapi({ description: "Major units of the group's currency" }),
+    currency: z.string(),
+    receiptAmount: z
+      .number()
+      .nullable()
+      .openapi({ description: "The same share in the receipt's currency, when it differs" }),
+    description: z.string().nullable(),
+    debtIds: z.array(z.string()),
+    createdAt: z.string().datetime(),
+  })
+  .openapi('Split');
+
+const DebtSchema = z
+  .object({
+    id: z.string(),
+    groupId: z.string().nullable(),
+    debtorId: z.string(),
+    creditorId: z.string(),
+    amount: z.number().openapi(MoneyNote),
+    currency: z.string(),
+    settled: z.boolean(),
+    settledAt: z.string().datetime().nullable(),
+    splitId: z.string().nullable(),
+    planId: z.string().nullable(),
+    createdAt: z.string().datetime(),
+  })
+  .openapi('Debt');
+
+const TransactionSchema = z
+  .object({
+    id: z.string(),
+    amount: z.number().openapi(MoneyNote),
+    currency: z.string(),
+    status: TransactionStatusSchema,
+    fromUserId: z.string(),
+    toUserId: z.string(),
+    groupId: z.string().nullable(),
+    description: z.string().nullable(),
+    paymentMethod: z.string().nullable(),
+    sentAt: z.string().datetime().nullable(),
+    completedAt: z.string().datetime().nullable(),
+    createdAt: z.string().datetime(),
+  })
+  .openapi('Transaction');
+
+const SettlementSchema = z
+  .object({
+    transaction: TransactionSchema,
+    debts: z.array(
+      z.object({
+        debtId: z.string(),
+        applied: z.number(),
+        remaining: z.number(),
+        settled: z.boolean(),
+      })
+    ),
+  })
+  .openapi('Settlement');
+
+const PaginationSchema = z.object({
+  nextCursor: z.string().nullable().openapi({ description: 'Null on the last page' }),
+});
+
+function single(schema: z.ZodTypeAny, description: string) {
+  return {
+    description,
+    content: { 'application/json': { schema: z.object({ data: schema }) } },
+  };
+}
+
+function page(schema: z.ZodTypeAny, description: string) {
+  return {
+    description,
+    content: {
+      'application/json': {
+        schema: z.object({ data: z.array(schema), pagination: PaginationSchema }),
+      },
+    },
+  };
+}
+
+function errors(...statuses: number[]) {
+  return Object.fromEntries(
+    [400, 401, 403, 429, ...statuses].map(status => [
+      status,
+      { description: 'Error', content: { 'application/json': { schema: ErrorSchema } } },
+    ])
+  );
+}
+
+function jsonBody(schema: z.ZodTypeAny) {
+  return { body: { content: { 'application/json': { schema } } } };
+}
+
+function path(scope: TokenScope, route: Omit<RouteConfig, 'security'>) {
+  registry.registerPath({ ...route, security: [{ bearerAuth: [scope] }] });
+}
+
+registry.registerComponent('securitySchemes', 'bearerAuth', {
+  type: 'http',
+  scheme: 'bearer',
+  description:
+    'A personal access token from the account page, sent as `Authorization: Bearer fsp_...`. ' +
+    `Scopes: ${TOKEN_SCOPES.join(', ')}.`,
+});
+
+const groupParams = z.object({ groupId: z.string() });
+const receiptParams = z.object({ receiptId: z.string() });
+const transactionParams = z.object({ transactionId: z.string() });
+
+path('ledger:read', {
+  method: 'get',
+  path: '/groups',
+  summary: 'Groups the caller belongs to',
+  request: { query: PageQuerySchema },
+  responses: { 200: page(GroupSchema, 'A page of groups'), ...errors() },
+});
+
+path('ledger:read', {
+  method: 'get',
+  path: '/groups/{groupId}',
+  summary: 'A group with its members and their balances',
+  request: { params: groupParams },
+  responses: { 200: single(GroupDetailsSchema, 'The group'), ...errors(404) },
+});
+
+path('ledger:read', {
+  method: 'get',
+  path: '/receipts',
+  summary: 'Receipts the caller can see',
+  request: { query: ListReceiptsQuerySchema },
+  responses: { 200: page(ReceiptSchema, 'A page of receipts'), ...errors() },
+});
+
+path('expenses:write', {
+  method: 'post',
+  path: '/receipts',
+  summary: 'Record an expense without an image',
+  request: jsonBody(CreateReceiptSchema),
+  responses: { 201: single(ReceiptSchema, 'The new receipt'), ...errors(404, 409) },
+});
+
+path('ledger:read', {
+  method: 'get',
+  path: '/receipts/{receiptId}',
+  summary: 'One receipt with its items',
+  request: { params: receiptParams },
+  responses: { 200: single(ReceiptSchema, 'The receipt'), ...errors(404) },
+});
+
+path('ledger:read', {
+  method: 'get',
+  path: '/splits',
+  summary: "A receipt's splits",
+  request: { query: ListSplitsQuerySchema },
+  responses: { 200: single(z.array(SplitSchema), 'The splits'), ...errors(404) },
+});
+
+path('expenses:write', {
+  method: 'post',
+  path: '/splits',
+  summary: 'Split a receipt, replacing any existing split',
+  request: jsonBody(CreateSplitSchema),
+  responses: { 201: single(z.array(SplitSchema), 'The new splits'), ...errors(404, 409) },
+});
+
+path('ledger:read', {
+  method: 'get',
+  path: '/debts',
+  summary: "The caller's debts, or every debt in a group",
+  request: { query: ListDebtsQuerySchema },
+  responses: { 200: page(DebtSchema, 'A page of debts'), ...errors(404) },
+});
+
+path('settle', {
+  method: 'post',
+  path: '/debts/settle',
+  summary: 'Record a payment between two members',
+  description: 'Debts are settled once the recipient confirms the payment.',
+  request: jsonBody(SettleDebtsSchema),
+  responses: { 201: single(SettlementSchema, 'The pending payment'), ...errors(404, 409) },
+});
+
+path('ledger:read', {
+  method: 'get',
+  path: '/transactions',
+  summary: 'Payments the caller sent or received',
+  request: { query: ListTransactionsQuerySchema },
+  responses: { 200: page(TransactionSchema, 'A page of payments'), ...errors() },
+});
+
+path('settle', {
+  method: 'post',
+  path: '/transactions/{transactionId}/confirm',
+  summary: 'Confirm a payment arrived',
+  request: { params: transactionParams },
+  responses: { 200: single(TransactionSchema, 'The confirmed payment'), ...errors(404, 409) },
+});
+
+/**
+ * The OpenAPI 3.1 document served at /api/v1/openapi.json
+ */
+export function generateOpenApiDocument(serverUrl: string) {
+  return new OpenApiGeneratorV31(registry.definitions).generateDocument({
+    openapi: '3.1.0',
+    info: {
+      title: 'FairSplit AI API',
+      version: '1.0.0',
+      description:
+        'Lists are newest first and paginated with `cursor` and `limit`. ' +
+        'Errors are `{ error: { code, message, details? } }`.',
+    },
+    servers: [{ url: serverUrl }],
+  });
+}
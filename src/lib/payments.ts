@@ -0,0 +1,147 @@
+import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import { Money, minorUnitDigits } from '@/lib/money';
+
+/**
+ * Ways a member can pay another, as stored in Transaction.paymentMethod
+ */
+export const PAYMENT_METHODS = ['venmo', 'paypal', 'cashapp', 'cash', 'bank_transfer'] as const;
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+/**
+ * When a payment marked as sent is confirmed for the recipient if they don't respond.
+ * Set PAYMENT_AUTO_CONFIRM_DAYS to change the default of 7 days.
+ */
+export function autoConfirmDate(sentAt: Date): Date {
+  const days = Number(process.env.PAYMENT_AUTO_CONFIRM_DAYS) || 7;
+  return new Date(sentAt.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+export interface PaymentHandles {
+  name: string | null;
+  venmoHandle: string | null;
+  paypalMeHandle: string | null;
+  cashtag: string | null;
+  iban: string | null;
+  bic: string | null;
+}
+
+export const PAYMENT_HANDLE_SELECT = {
+  name: true,
+  venmoHandle: true,
+  paypalMeHandle: true,
+  cashtag: true,
+  iban: true,
+  bic: true,
+} as const;
+
+export interface PaymentRequest {
+  amount: number; // Minor units
+  currency: string;
+  note?: string;
+}
+
+export interface PaymentLink {
+  method: PaymentMethod;
+  label: string;
+  url?: string; // Opens the app (or its website) with the payment filled in
+  qrPayload: string; // What the QR code for this link encodes
+}
+
+/**
+ * Deep links for paying someone through the apps they have handles for.
+ * Apps that cannot take the currency are left out; SEPA only supports EUR.
+ */
+export function buildPaymentLinks(payee: PaymentHandles, request: PaymentRequest): PaymentLink[] {
+  const money = Money.of(request.amount, request.currency);
+  const amount = money.toMajor().toFixed(minorUnitDigits(money.currency));
+  const note = request.note?.slice(0, 140) || 'FairSplit settle-up';
+  const links: PaymentLink[] = [];
+
+  if (payee.venmoHandle && money.currency === 'USD') {
+    const params = new URLSearchParams({
+      txn: 'pay',
+      recipients: payee.venmoHandle,
+      amount,
+      note,
+    });
+    const url = `https://venmo.com/?${params}`;
+    links.push({ method: 'venmo', label: `Venmo @${payee.venmoHandle}`, url, qrPayload: url });
+  }
+
+  if (payee.paypalMeHandle) {
+    const url = `https://paypal.me/${encodeURIComponent(payee.paypalMeHandle)}/${amount}${money.currency}`;
+    links.push({
+      method: 'paypal',
+      label: `PayPal.me/${payee.paypalMeHandle}`,
+      url,
+      qrPayload: url,
+    });
+  }
+
+  if (payee.cashtag && (money.currency === 'USD' || money.currency === 'GBP')) {
+    const url = `https://cash.app/$${encodeURIComponent(payee.cashtag)}/${amount}`;
+    links.push({ method: 'cashapp', label: `Cash App $${payee.cashtag}`, url, qrPayload: url });
+  }
+
+  if (payee.iban && money.currency === 'EUR') {
+    links.push({
+      method: 'bank_transfer',
+      label: `SEPA transfer to ${formatIban(payee.iban)}`,
+      qrPayload: epcPayload(payee, amount, note),
+    });
+  }
+
+  return links;
+}
+
+/**
+ * Payment links for paying a member the requester shares a group with
+ */
+export async function getPaymentLinks(
+  payeeId: string,
+  request: PaymentRequest,
+  requestedBy: string
+): Promise<PaymentLink[]> {
+  const payee = await prisma.user.findFirst({
+    where: {
+      id: payeeId,
+      groups: { some: { group: { members: { some: { userId: requestedBy } } } } },
+    },
+    select: PAYMENT_HANDLE_SELECT,
+  });
+
+  if (!payee) {
+    throw new ServiceError('Payee not found', 404);
+  }
+
+  return buildPaymentLinks(payee, request);
+}
+
+/**
+ * EPC069-12 "Girocode" payload, which European banking apps scan to fill in a SEPA transfer
+ */
+function epcPayload(payee: PaymentHandles, amount: string, note: string): string {
+  return [
+    'BCD',
+    '002',
+    '1', // UTF-8
+    'SCT',
+    payee.bic ?? '',
+    (payee.name || 'FairSplit member').slice(0, 70),
+    payee.iban!.replace(/\s+/g, '').toUpperCase(),
+    `EUR${amount}`,
+    '', // Purpose code
+    '', // Structured reference (unused when a text reference is given)
+    note,
+  ].join('\n');
+}
+
+function formatIban(iban: string): string {
+  return iban
+    .replace(/\s+/g, '')
+    .toUpperCase()
+    .replace(/(.{4})/g, '$1 ')
+    .trim();
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import type { Group, Receipt, ReceiptItem } from '@prisma/client';
+import { z } from 'zod';
+import { authenticateAccessToken, type TokenScope } from '@/lib/access-tokens';
+import { ServiceError } from '@/lib/errors';
+import { toMajor } from '@/lib/money';
+import { serializeReceipt } from '@/lib/receipts';
+import { checkRateLimit } from '@/lib/redis';
+import type { getReceiptSplits } from '@/lib/splits';
+
+// Conventions for /api/v1, which scripts depend on and so must stay stable:
+//   success  { data }                          status 200/201
+//   list     { data: [...], pagination: { nextCursor } }
+//   error    { error: { code, message, details? } }
+
+const REQUESTS_PER_MINUTE = 120; // Per token
+
+const ERROR_CODES: Record<number, string> = {
+  400: 'invalid_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  410: 'gone',
+  422: 'unprocessable',
+  429: 'rate_limited',
+};
+
+export interface PageQuery {
+  cursor?: string;
+  limit: number;
+}
+
+/**
+ * Authenticate a v1 request by its bearer token and check the scope and rate limit
+ */
+export async function requireApiToken(req: NextRequest, scope: TokenScope) {
+  const identity = await authenticateAccessToken(req.headers.get('authorization'), scope);
+
+  const { allowed } = await checkRateLimit(`api:${identity.tokenId}`, REQUESTS_PER_MINUTE, 60);
+  if (!allowed) {
+    throw new ServiceError('Rate limit exceeded', 429);
+  }
+
+  return identity;
+}
+
+export function apiResponse(data: unknown, status = 200) {
+  return NextResponse.json({ data }, { status });
+}
+
+export function apiError(status: number, message: string, details?: unknown) {
+  const code = ERROR_CODES[status] || (status >= 500 ? 'internal_error' : 'error');
+  return NextResponse.json(
+    { error: { code, message, ...(details !== undefined && { details }) } },
+    { status }
+  );
+}
+
+/**
+ * The v1 error envelope for anything thrown in a handler
+ */
+export function apiErrorResponse(error: unknown) {
+  if (error instanceof z.ZodError) {
+    return apiError(400, 'Invalid input', error.errors);
+  }
+
+  if (error instanceof ServiceError) {
+    return apiError(error.status, error.message, error.details);
+  }
+
+  console.error('API v1 error:', error);
+  return apiError(500, 'Internal server error');
+}
+
+function decodeCursor(cursor: string): string {
+  const id = Buffer.from(cursor, 'base64url').toString('utf8');
+  if (!/^[\w-]+$/.test(id)) {
+    throw new ServiceError('Invalid cursor');
+  }
+  return id;
+}
+
+/**
+ * findMany arguments for one page, newest first. One extra row is fetched to
+ * tell whether there is another page.
+ */
+export function pageArgs(query: PageQuery) {
+  return {
+    take: query.limit + 1,
+    ...(query.cursor && { cursor: { id: decodeCursor(query.cursor) }, skip: 1 }),
+    orderBy: [{ createdAt: 'desc' as const }, { id: 'desc' as const }],
+  };
+}
+
+export function pageResponse<T extends { id: string }, R>(
+  rows: T[],
+  query: PageQuery,
+  serialize: (row: T) => R
+) {
+  const items = rows.slice(0, query.limit);
+  const nextCursor =
+    rows.length > query.limit
+      ? Buffer.from(items[items.length - 1].id, 'utf8').toString('base64url')
+      : null;
+
+  return NextResponse.json({ data: items.map(serialize), pagination: { nextCursor } });
+}
+
+// Resources are trimmed to what scripts need, so internal columns can change freely
+
+export function serializeApiGroup(group: Group) {
+  return {
+    id: group.id,
+    name: group.name,
+    description: group.description,
+    currency: group.currency,
+    archived: group.archivedAt !== null,
+    createdAt: group.createdAt,
+  };
+}
+
+export function serializeApiReceipt(receipt: Receipt & { items: ReceiptItem[] }) {
+  const { imageUrl, imageKey, parsedData, ...rest } = serializeReceipt(receipt);
+  return { ...rest, hasImage: imageUrl !== null };
+}
+
+export const API_DEBT_INCLUDE = {
+  split: { select: { receipt: { select: { groupId: true, group: { select: { currency: true } } } } } },
+  plan: { select: { groupId: true, currency: true } },
+} satisfies Prisma.DebtInclude;
+
+export function serializeApiDebt(
+  debt: Prisma.DebtGetPayload<{ include: typeof API_DEBT_INCLUDE }>
+) {
+  const groupId = debt.split?.receipt.groupId ?? debt.plan?.groupId ?? null;
+  const currency = debt.split?.receipt.group?.currency ?? debt.plan?.currency ?? 'USD';
+
+  return {
+    id: debt.id,
+    groupId,
+    debtorId: debt.debtorId,
+    creditorId: debt.creditorId,
+    amount: toMajor(debt.amount, currency),
+    currency,
+    settled: debt.settled,
+    settledAt: debt.settledAt,
+    splitId: debt.splitId,
+    planId: debt.planId,
+    createdAt: debt.createdAt,
+  };
+}
+
+export function serializeApiSplit(split: Awaited<ReturnType<typeof getReceiptSplits>>[number]) {
+  return {
+    id: split.id,
+    receiptId: split.receiptId,
+    userId: split.userId,
+    paidBy: split.paidBy,
+    amount: split.amount,
+    currency: split.receipt.groupCurrency,
+    receiptAmount: split.receiptAmount,
+    description: split.description,
+    debtIds: split.debts.map(d => d.id),
+    createdAt: split.createdAt,
+  };
+}
@@ -0,0 +1,91 @@
+import type { Receipt, ReceiptItem } from '@prisma/client';
+import { requireGroupMember } from '@/lib/authz';
+import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import { requireActiveGroup } from '@/lib/groups';
+import { Money, toMajor } from '@/lib/money';
+
+export interface ReceiptInput {
+  groupId: string;
+  merchant: string;
+  date: Date;
+  currency?: string;
+  total?: number; // Major units, as are the amounts below
+  tax?: number;
+  tip?: number;
+  serviceCharge?: number;
+  discount?: number;
+  items: { name: string; price: number; quantity: number; category?: string }[];
+  externalId?: string; // Source row of an imported expense
+}
+
+/**
+ * Convert a stored receipt's minor-unit amounts to major units for API responses
+ */
+export function serializeReceipt<T extends Receipt & { items?: ReceiptItem[] }>(receipt: T) {
+  const major = (minor: number) => toMajor(minor, receipt.currency);
+  const optionalMajor = (minor: number | null) => (minor === null ? null : major(minor));
+
+  return {
+    ...receipt,
+    total: major(receipt.total),
+    tax: optionalMajor(receipt.tax),
+    tip: optionalMajor(receipt.tip),
+    serviceCharge: optionalMajor(receipt.serviceCharge),
+    discount: optionalMajor(receipt.discount),
+    items: receipt.items?.map(item => ({ ...item, price: major(item.price) })),
+  };
+}
+
+/**
+ * Record an expense entered by hand rather than scanned: no image, nothing to parse.
+ * Without a total, it is the items plus extras.
+ */
+export async function createReceipt(input: ReceiptInput, requestedBy: string) {
+  await requireGroupMember(input.groupId, requestedBy);
+  await requireActiveGroup(input.groupId);
+
+  const group = await prisma.group.findUniqueOrThrow({
+    where: { id: input.groupId },
+    select: { currency: true },
+  });
+  const currency = (input.currency || group.currency).toUpperCase();
+  const minor = (amount: number) => Money.fromMajor(amount, currency).minor;
+  const optionalMinor = (amount?: number) => (amount === undefined ? null : minor(amount));
+
+  const items = input.items.map(item => ({ ...item, price: minor(item.price) }));
+  const itemsTotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const total =
+    input.total !== undefined
+      ? minor(input.total)
+      : itemsTotal +
+        (optionalMinor(input.tax) ?? 0) +
+        (optionalMinor(input.tip) ?? 0) +
+        (optionalMinor(input.serviceCharge) ?? 0) -
+        (optionalMinor(input.discount) ?? 0);
+
+  if (total <= 0) {
+    throw new ServiceError('A receipt needs a total or items that add up to more than zero');
+  }
+
+  const receipt = await prisma.receipt.create({
+    data: {
+      groupId: input.groupId,
+      uploadedBy: requestedBy,
+      merchant: input.merchant,
+      date: input.date,
+      currency,
+      total,
+      tax: optionalMinor(input.tax),
+      tip: optionalMinor(input.tip),
+      serviceCharge: optionalMinor(input.serviceCharge),
+      discount: optionalMinor(input.discount),
+      externalId: input.externalId,
+      parsed: true,
+      items: { create: items },
+    },
+    include: { items: true },
+  });
+
+  return receipt;
+}
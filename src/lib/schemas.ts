@@ -0,0 +1,150 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+import { PAYMENT_METHODS } from '@/lib/payments';
+
+// Request schemas shared by the app's routes and /api/v1. Route modules can only
+// export handlers, so schemas that are also documented in the OpenAPI spec live here.
+extendZodWithOpenApi(z);
+
+const PayersSchema = z
+  .array(
+    z.object({
+      userId: z.string(),
+      amount: z.number().nonnegative(),
+    })
+  )
+  .min(1)
+  .openapi({ description: 'Who paid how much, when several people paid (major units)' });
+
+export const ItemizedSplitSchema = z
+  .object({
+    mode: z.literal('itemized'),
+    receiptId: z.string(),
+    paidBy: z.string().optional(),
+    payers: PayersSchema.optional(),
+    description: z.string().optional(),
+    extras: z
+      .object({
+        tax: z.number().nonnegative().optional(),
+        tip: z.number().nonnegative().optional(),
+        serviceCharge: z.number().nonnegative().optional(),
+        discount: z.number().nonnegative().optional(),
+      })
+      .optional(),
+    tipSplit: z.enum(['proportional', 'even']).optional(),
+    items: z
+      .array(
+        z.object({
+          itemId: z.string(),
+          shares: z
+            .array(
+              z.object({
+                userId: z.string(),
+                share: z.number().positive().optional(),
+              })
+            )
+            .min(1),
+        })
+      )
+      .min(1),
+  })
+  .openapi('ItemizedSplit');
+
+export const ModeSplitSchema = z
+  .object({
+    mode: z.enum(['equal', 'exact', 'percentage', 'shares', 'adjustment']),
+    receiptId: z.string(),
+    paidBy: z.string().optional(),
+    payers: PayersSchema.optional(),
+    description: z.string().optional(),
+    participants: z
+      .array(
+        z.object({
+          userId: z.string(),
+          amount: z.number().nonnegative().optional(),
+          percentage: z.number().nonnegative().optional(),
+          shares: z.number().positive().optional(),
+          adjustment: z.number().optional(),
+        })
+      )
+      .min(1),
+  })
+  .openapi('ModeSplit');
+
+export const CreateSplitSchema = z
+  .union([ItemizedSplitSchema, ModeSplitSchema])
+  .openapi('CreateSplit');
+
+export const SettleDebtsSchema = z
+  .object({
+    groupId: z.string(),
+    fromUserId: z.string(),
+    toUserId: z.string(),
+    amount: z.number().positive(),
+    paymentMethod: z.enum(PAYMENT_METHODS).optional(),
+    paymentId: z.string().optional(),
+    description: z.string().optional(),
+  })
+  .openapi('SettleDebts');
+
+export const CreateReceiptSchema = z
+  .object({
+    groupId: z.string(),
+    merchant: z.string().trim().min(1).max(200),
+    date: z.coerce.date(),
+    currency: z
+      .string()
+      .regex(/^[A-Za-z]{3}$/)
+      .optional()
+      .openapi({ description: "Defaults to the group's currency" }),
+    total: z
+      .number()
+      .positive()
+      .optional()
+      .openapi({ description: 'Defaults to the items plus tax, tip and service charge, less discount' }),
+    tax: z.number().nonnegative().optional(),
+    tip: z.number().nonnegative().optional(),
+    serviceCharge: z.number().nonnegative().optional(),
+    discount: z.number().nonnegative().optional(),
+    items: z
+      .array(
+        z.object({
+          name: z.string().trim().min(1).max(200),
+          price: z.number().nonnegative().openapi({ description: 'Unit price, major units' }),
+          quantity: z.number().int().positive().default(1),
+          category: z.string().optional(),
+        })
+      )
+      .default([]),
+  })
+  .openapi('CreateReceipt');
+
+export const TransactionStatusSchema = z.enum(['pending', 'completed', 'failed', 'cancelled']);
+
+export const PageQuerySchema = z.object({
+  cursor: z.string().optional().openapi({ description: 'nextCursor from the previous page' }),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+// Query strings of the /api/v1 list endpoints
+
+export const ListReceiptsQuerySchema = PageQuerySchema.extend({
+  groupId: z.string().optional(),
+});
+
+export const ListSplitsQuerySchema = z.object({
+  receiptId: z.string(),
+});
+
+export const ListDebtsQuerySchema = PageQuerySchema.extend({
+  groupId: z
+    .string()
+    .optional()
+    .openapi({ description: "Every debt in the group; without it, only the caller's own" }),
+  settled: z.enum(['true', 'false']).default('false'),
+});
+
+export const ListTransactionsQuerySchema = PageQuerySchema.extend({
+  groupId: z.string().optional(),
+  status: TransactionStatusSchema.optional(),
+});
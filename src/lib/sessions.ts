@@ -0,0 +1,160 @@
+import { randomBytes } from 'crypto';
+import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import type { ClientInfo } from '@/lib/http';
+
+// lastSeenAt, IP and user agent are refreshed at most this often, so checking
+// a session on every request doesn't also write on every request
+const SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Record a newly issued JWT. Returns the id it carries from now on.
+ */
+export async function createSession(userId: string, client: ClientInfo, maxAgeSeconds: number) {
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      sessionToken: randomBytes(32).toString('base64url'),
+      expires: new Date(Date.now() + maxAgeSeconds * 1000),
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+    },
+  });
+
+  return session.id;
+}
+
+/**
+ * Whether a JWT's session is still live. Revoked sessions no longer have a row.
+ */
+export async function touchSession(sessionId: string, client: ClientInfo): Promise<boolean> {
+  const session = await prisma.session.findUnique({ where: { id: sessionId } });
+  const now = new Date();
+
+  if (!session || session.expires <= now) {
+    return false;
+  }
+
+  if (now.getTime() - session.lastSeenAt.getTime() > SEEN_INTERVAL_MS) {
+    await prisma.session.updateMany({
+      where: { id: sessionId },
+      data: {
+        lastSeenAt: now,
+        ipAddress: client.ipAddress ?? session.ipAddress,
+        userAgent: client.userAgent ?? session.userAgent,
+      },
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Forget a session on sign-out
+ */
+export async function endSession(sessionId: string) {
+  await prisma.session.deleteMany({ where: { id: sessionId } });
+}
+
+/**
+ * A user's active sessions and trusted devices, most recently used first
+ */
+export async function listSessions(userId: string, currentSessionId?: string) {
+  const now = new Date();
+
+  const [sessions, devices] = await Promise.all([
+    prisma.session.findMany({
+      where: { userId, expires: { gt: now } },
+      orderBy: { lastSeenAt: 'desc' },
+    }),
+    prisma.trustedDevice.findMany({
+      where: { userId, expiresAt: { gt: now } },
+      orderBy: { lastUsedAt: 'desc' },
+    }),
+  ]);
+
+  return {
+    sessions: sessions.map(s => ({
+      id: s.id,
+      ipAddress: s.ipAddress,
+      userAgent: s.userAgent,
+      lastSeenAt: s.lastSeenAt,
+      createdAt: s.createdAt,
+      expires: s.expires,
+      current: s.id === currentSessionId,
+    })),
+    trustedDevices: devices.map(d => ({
+      id: d.id,
+      ipAddress: d.ipAddress,
+      userAgent: d.userAgent,
+      lastUsedAt: d.lastUsedAt,
+      createdAt: d.createdAt,
+      expiresAt: d.expiresAt,
+    })),
+  };
+}
+
+/**
+ * Sign one session out; its JWT stops working on the next request
+ */
+export async function revokeSession(userId: string, sessionId: string) {
+  await prisma.$transaction(async tx => {
+    const { count } = await tx.session.deleteMany({ where: { id: sessionId, userId } });
+    if (count === 0) {
+      throw new ServiceError('Session not found', 404);
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'session_revoke',
+        resource: 'auth',
+        resourceId: sessionId,
+        success: true,
+      },
+    });
+  });
+}
+
+/**
+ * Sign out everywhere: every session, including the current one, and every
+ * device trusted to skip two-factor
+ */
+export async function revokeAllSessions(userId: string, reason = 'user') {
+  await prisma.$transaction(async tx => {
+    const sessions = await tx.session.deleteMany({ where: { userId } });
+    const devices = await tx.trustedDevice.deleteMany({ where: { userId } });
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'session_revoke_all',
+        resource: 'auth',
+        metadata: { reason, sessions: sessions.count, trustedDevices: devices.count },
+        success: true,
+      },
+    });
+  });
+}
+
+/**
+ * Make a trusted device ask for a two-factor code again
+ */
+export async function forgetTrustedDevice(userId: string, deviceId: string) {
+  await prisma.$transaction(async tx => {
+    const { count } = await tx.trustedDevice.deleteMany({ where: { id: deviceId, userId } });
+    if (count === 0) {
+      throw new ServiceError('Device not found', 404);
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'trusted_device_remove',
+        resource: 'auth',
+        resourceId: deviceId,
+        success: true,
+      },
+    });
+  });
+}
@@ -0,0 +1,337 @@
+import { Prisma, SettlementPlan } from '@prisma/client';
+import type { DebtOptimizeOutput, Transaction } from '@/agents/DebtOptimizerAgent';
+import { prisma } from '@/lib/db';
+import { groupDebtsWhere } from '@/lib/debts';
+import { ServiceError } from '@/lib/errors';
+import { PlannedForgiveness, recordForgiveness } from '@/lib/forgiveness';
+import { toMajor } from '@/lib/money';
+
+export type SettlementPlanStatus = 'proposed' | 'accepted' | 'completed' | 'invalidated';
+
+export interface PlanSourceDebt {
+  id: string;
+  debtorId: string;
+  creditorId: string;
+  amount: number; // Minor units
+}
+
+/**
+ * A 409 while a payment towards the group's debts waits for confirmation:
+ * a plan replaces those debts, so the payment would be counted twice and could
+ * no longer be applied once confirmed. Netted payments between two members in
+ * the group's currency count too, since they settle the group's debts as well.
+ */
+export async function requireNoPendingPayments(
+  groupId: string,
+  client: Prisma.TransactionClient | typeof prisma = prisma
+) {
+  const group = await client.group.findUnique({
+    where: { id: groupId },
+    select: { currency: true, members: { select: { userId: true } } },
+  });
+  if (!group) {
+    throw new ServiceError('Group not found', 404);
+  }
+
+  const memberIds = group.members.map(m => m.userId);
+  const pending = await client.transaction.count({
+    where: {
+      status: 'pending',
+      OR: [
+        { groupId },
+        {
+          netted: true,
+          currency: group.currency,
+          fromUserId: { in: memberIds },
+          toUserId: { in: memberIds },
+        },
+      ],
+    },
+  });
+
+  if (pending > 0) {
+    throw new ServiceError(
+      'Some payments are waiting for confirmation; settle up once they are confirmed or cancelled',
+      409,
+      { pending }
+    );
+  }
+}
+
+/**
+ * Store the optimizer's suggestion as a proposed plan.
+ * Any older proposal for the group is invalidated, so only the latest can be accepted.
+ */
+export async function createSettlementPlan(
+  groupId: string,
+  currency: string,
+  sourceDebts: PlanSourceDebt[],
+  output: DebtOptimizeOutput,
+  requestedBy: string
+) {
+  return prisma.$transaction(async tx => {
+    await invalidateSettlementPlans(tx, groupId, 'Superseded by a newer plan', ['proposed']);
+
+    return tx.settlementPlan.create({
+      data: {
+        groupId,
+        currency,
+        createdBy: requestedBy,
+        transfers: output.transactions as unknown as Prisma.InputJsonValue,
+        sourceDebts: sourceDebts as unknown as Prisma.InputJsonValue,
+        forgiven: output.forgiven.map(f => ({ ...f, approvedBy: [] })),
+      },
+    });
+  });
+}
+
+/**
+ * Mark a group's open plans as invalid, e.g. when a new expense changes balances.
+ * Debts already created by an accepted plan stay open: they still reflect what
+ * people owe and will be picked up by the next optimization.
+ */
+export async function invalidateSettlementPlans(
+  tx: Prisma.TransactionClient,
+  groupId: string,
+  reason: string,
+  statuses: SettlementPlanStatus[] = ['proposed', 'accepted']
+) {
+  await tx.settlementPlan.updateMany({
+    where: { groupId, status: { in: statuses } },
+    data: { status: 'invalidated', invalidatedReason: reason, invalidatedAt: new Date() },
+  });
+}
+
+/**
+ * Complete accepted plans whose debts have all been settled
+ */
+export async function completeSettledPlans(tx: Prisma.TransactionClient, planIds: string[]) {
+  for (const planId of Array.from(new Set(planIds))) {
+    const open = await tx.debt.count({ where: { planId, settled: false } });
+    if (open === 0) {
+      await tx.settlementPlan.updateMany({
+        where: { id: planId, status: 'accepted' },
+        data: { status: 'completed', completedAt: new Date() },
+      });
+    }
+  }
+}
+
+/**
+ * Approve every write-off in a proposed plan that the member is a party to
+ */
+export async function approvePlanForgiveness(planId: string, requestedBy: string) {
+  const plan = await prisma.settlementPlan.findUnique({ where: { id: planId } });
+
+  if (!plan) {
+    throw new ServiceError('Settlement plan not found', 404);
+  }
+
+  if (plan.status !== 'proposed') {
+    throw new ServiceError(`Settlement plan is already ${plan.status}`, 409);
+  }
+
+  const forgiven = plan.forgiven as unknown as PlannedForgiveness[];
+  if (!forgiven.some(f => f.debtor === requestedBy || f.creditor === requestedBy)) {
+    throw new ServiceError('Nothing in this plan needs your approval', 403);
+  }
+
+  const approved = forgiven.map(f =>
+    (f.debtor === requestedBy || f.creditor === requestedBy) && !f.approvedBy.includes(requestedBy)
+      ? { ...f, approvedBy: [...f.approvedBy, requestedBy] }
+      : f
+  );
+
+  // Only write if the plan is still proposed and nobody else approved in between
+  const { count } = await prisma.settlementPlan.updateMany({
+    where: { id: plan.id, status: 'proposed', updatedAt: plan.updatedAt },
+    data: { forgiven: approved as unknown as Prisma.InputJsonValue },
+  });
+  if (count === 0) {
+    throw new ServiceError('Settlement plan changed while approving, try again', 409);
+  }
+
+  return getSettlementPlan(plan.id);
+}
+
+/**
+ * Replace the group's pairwise debts with one optimized debt per transfer in the plan,
+ * and write off the plan's forgiven amounts on the ledger.
+ * Fails with 409 (and invalidates the plan) if balances moved since it was proposed,
+ * and with 409 while payments are waiting for confirmation.
+ */
+export async function acceptSettlementPlan(planId: string, requestedBy: string) {
+  const plan = await prisma.settlementPlan.findUnique({
+    where: { id: planId },
+    include: { group: { include: { members: { select: { userId: true } } } } },
+  });
+
+  if (!plan) {
+    throw new ServiceError('Settlement plan not found', 404);
+  }
+
+  if (!plan.group.members.some(m => m.userId === requestedBy)) {
+    throw new ServiceError('Forbidden', 403);
+  }
+
+  if (plan.status !== 'proposed') {
+    throw new ServiceError(`Settlement plan is already ${plan.status}`, 409);
+  }
+
+  const transfers = plan.transfers as unknown as Transaction[];
+  const sourceDebts = plan.sourceDebts as unknown as PlanSourceDebt[];
+  let forgiven = plan.forgiven as unknown as PlannedForgiveness[];
+
+  // Under a consent policy both sides must have approved each write-off;
+  // otherwise the member accepting the plan approves them
+  if (plan.group.forgivenessNeedsConsent) {
+    const pending = forgiven.filter(
+      f => !f.approvedBy.includes(f.debtor) || !f.approvedBy.includes(f.creditor)
+    );
+    if (pending.length > 0) {
+      throw new ServiceError('Some forgiven amounts are still waiting for approval', 409, {
+        pending: pending.map(f => ({ ...f, amount: toMajor(f.amount, plan.currency) })),
+      });
+    }
+  } else {
+    forgiven = forgiven.map(f =>
+      f.approvedBy.includes(requestedBy) ? f : { ...f, approvedBy: [...f.approvedBy, requestedBy] }
+    );
+  }
+
+  const accepted = await prisma.$transaction(async tx => {
+    await requireNoPendingPayments(plan.groupId, tx);
+
+    const openDebts = await tx.debt.findMany({
+      where: { ...groupDebtsWhere(plan.groupId), settled: false },
+      select: { id: true, amount: true },
+    });
+
+    const unchanged =
+      openDebts.length === sourceDebts.length &&
+      openDebts.every(d => sourceDebts.some(s => s.id === d.id && s.amount === d.amount));
+    if (!unchanged) return null;
+
+    const now = new Date();
+    const { count } = await tx.debt.updateMany({
+      where: { id: { in: sourceDebts.map(d => d.id) }, settled: false },
+      data: { settled: true, settledAt: now, supersededAt: now },
+    });
+    if (count !== sourceDebts.length) {
+      throw new ServiceError('Debts changed while the plan was being accepted, try again', 409);
+    }
+
+    // Each optimized debt links back to the debts its debtor owed and its creditor was owed
+    for (const transfer of transfers) {
+      const originalAmount = sourceDebts
+        .filter(d => d.debtorId === transfer.from && d.creditorId === transfer.to)
+        .reduce((sum, d) => sum + d.amount, 0);
+      const sources = sourceDebts.filter(
+        d => d.debtorId === transfer.from || d.creditorId === transfer.to
+      );
+
+      await tx.debt.create({
+        data: {
+          debtorId: transfer.from,
+          creditorId: transfer.to,
+          amount: transfer.amount,
+          optimized: true,
+          originalAmount,
+          planId: plan.id,
+          sources: { connect: sources.map(d => ({ id: d.id })) },
+        },
+      });
+    }
+
+    await recordForgiveness(tx, plan, forgiven);
+
+    const updated = await tx.settlementPlan.update({
+      where: { id: plan.id },
+      data: {
+        forgiven: forgiven as unknown as Prisma.InputJsonValue,
+        ...(transfers.length > 0
+          ? { status: 'accepted', acceptedAt: now }
+          : { status: 'completed', acceptedAt: now, completedAt: now }),
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: requestedBy,
+        action: 'settlement_plan_accept',
+        resource: 'debts',
+        resourceId: plan.id,
+        metadata: {
+          groupId: plan.groupId,
+          replacedDebts: sourceDebts.length,
+          transfers: transfers.length,
+          forgiven: forgiven.length,
+        },
+        success: true,
+      },
+    });
+
+    return updated;
+  });
+
+  if (!accepted) {
+    await prisma.settlementPlan.updateMany({
+      where: { id: plan.id, status: 'proposed' },
+      data: {
+        status: 'invalidated',
+        invalidatedReason: 'Balances changed since the plan was created',
+        invalidatedAt: new Date(),
+      },
+    });
+    throw new ServiceError('Balances changed since the plan was created, optimize again', 409);
+  }
+
+  return getSettlementPlan(accepted.id);
+}
+
+/**
+ * Fetch a plan with the debts it created, amounts in major units
+ */
+export async function getSettlementPlan(planId: string) {
+  const plan = await prisma.settlementPlan.findUnique({
+    where: { id: planId },
+    include: {
+      debts: {
+        include: { sources: { select: { id: true, amount: true, splitId: true } } },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  return plan ? serializeSettlementPlan(plan) : null;
+}
+
+export function serializeSettlementPlan<
+  T extends SettlementPlan & {
+    debts?: { amount: number; originalAmount: number | null; sources?: { amount: number }[] }[];
+  },
+>(plan: T) {
+  const major = (minor: number) => toMajor(minor, plan.currency);
+
+  return {
+    ...plan,
+    transfers: (plan.transfers as unknown as Transaction[]).map(t => ({
+      ...t,
+      amount: major(t.amount),
+    })),
+    sourceDebts: (plan.sourceDebts as unknown as PlanSourceDebt[]).map(d => ({
+      ...d,
+      amount: major(d.amount),
+    })),
+    forgiven: (plan.forgiven as unknown as PlannedForgiveness[]).map(f => ({
+      ...f,
+      amount: major(f.amount),
+    })),
+    debts: plan.debts?.map(d => ({
+      ...d,
+      amount: major(d.amount),
+      originalAmount: d.originalAmount === null ? null : major(d.originalAmount),
+      sources: d.sources?.map(s => ({ ...s, amount: major(s.amount) })),
+    })),
+  };
+}
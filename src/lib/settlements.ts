@@ -0,0 +1,491 @@
+import { Prisma, Transaction as TransactionRecord } from '@prisma/client';
+import { DebtOptimizerAgent } from '@/agents/DebtOptimizerAgent';
+import { prisma } from '@/lib/db';
+import { groupDebtsWhere } from '@/lib/debts';
+import { ServiceError } from '@/lib/errors';
+import { appendLedgerEntries } from '@/lib/ledger';
+import { Money, toMajor } from '@/lib/money';
+import { autoConfirmDate } from '@/lib/payments';
+import { completeSettledPlans } from '@/lib/settlement-plans';
+import { emitPaymentEvents } from '@/lib/webhooks';
+
+export interface SettleDebtsInput {
+  groupId: string;
+  fromUserId: string; // Who paid (the debtor)
+  toUserId: string; // Who was paid (the creditor)
+  amount: number; // Major units of the group's currency
+  paymentMethod?: string;
+  paymentId?: string;
+  description?: string;
+}
+
+export interface OpenDebt {
+  id: string;
+  amount: number; // Minor units
+}
+
+export interface DebtApplication {
+  debtId: string;
+  applied: number;
+  remaining: number;
+}
+
+/**
+ * Apply a payment to debts in the order given (oldest first).
+ * Each debt is paid off in full before the next; the last one touched may be partial.
+ */
+export function applyPaymentToDebts(debts: OpenDebt[], amountMinor: number): DebtApplication[] {
+  const applications: DebtApplication[] = [];
+  let left = amountMinor;
+
+  for (const debt of debts) {
+    if (left <= 0) break;
+
+    const applied = Math.min(debt.amount, left);
+    applications.push({ debtId: debt.id, applied, remaining: debt.amount - applied });
+    left -= applied;
+  }
+
+  return applications;
+}
+
+/**
+ * Record a payment between two group members.
+ * When the payer records it, it is only marked as sent: debts stay open until the
+ * recipient confirms (or it times out). A recipient recording a payment they
+ * received confirms it straight away.
+ */
+export async function settleDebts(input: SettleDebtsInput, requestedBy: string) {
+  if (input.fromUserId === input.toUserId) {
+    throw new ServiceError('Cannot record a payment to yourself');
+  }
+
+  if (requestedBy !== input.fromUserId && requestedBy !== input.toUserId) {
+    throw new ServiceError('Only the payer or the recipient can record a payment', 403);
+  }
+
+  const group = await prisma.group.findUnique({
+    where: { id: input.groupId },
+    include: { members: { select: { userId: true } } },
+  });
+
+  if (!group) {
+    throw new ServiceError('Group not found', 404);
+  }
+
+  const memberIds = new Set(group.members.map(m => m.userId));
+  const outsiders = [input.fromUserId, input.toUserId].filter(id => !memberIds.has(id));
+  if (outsiders.length > 0) {
+    throw new ServiceError('Both people must be members of the group', 400, { userIds: outsiders });
+  }
+
+  const payment = Money.fromMajor(input.amount, group.currency);
+  if (!payment.isPositive()) {
+    throw new ServiceError('Payment amount must be positive');
+  }
+
+  const result = await prisma.$transaction(async tx => {
+    const openDebts = await tx.debt.findMany({
+      where: {
+        ...groupDebtsWhere(input.groupId),
+        settled: false,
+        debtorId: input.fromUserId,
+        creditorId: input.toUserId,
+      },
+      select: { amount: true },
+    });
+    const pending = await tx.transaction.aggregate({
+      where: {
+        groupId: input.groupId,
+        fromUserId: input.fromUserId,
+        toUserId: input.toUserId,
+        status: 'pending',
+      },
+      _sum: { amount: true },
+    });
+
+    // A netted payment settles every debt between the two, this group's included
+    const netted = await tx.transaction.count({
+      where: {
+        netted: true,
+        currency: group.currency,
+        status: 'pending',
+        OR: [
+          { fromUserId: input.fromUserId, toUserId: input.toUserId },
+          { fromUserId: input.toUserId, toUserId: input.fromUserId },
+        ],
+      },
+    });
+    if (netted > 0) {
+      throw new ServiceError(
+        'A netted payment between you is already waiting for confirmation',
+        409
+      );
+    }
+
+    // Payments already sent but not yet confirmed count against what is owed
+    const outstanding =
+      openDebts.reduce((sum, d) => sum + d.amount, 0) - (pending._sum.amount || 0);
+    if (payment.minor > outstanding) {
+      throw new ServiceError('Payment is more than what is owed', 422, {
+        outstanding: toMajor(Math.max(outstanding, 0), group.currency),
+        currency: group.currency,
+      });
+    }
+
+    const sentAt = new Date();
+    const transaction = await tx.transaction.create({
+      data: {
+        amount: payment.minor,
+        currency: group.currency,
+        status: 'pending',
+        fromUserId: input.fromUserId,
+        toUserId: input.toUserId,
+        groupId: input.groupId,
+        description: input.description,
+        paymentMethod: input.paymentMethod,
+        paymentId: input.paymentId,
+        sentAt,
+        autoConfirmAt: autoConfirmDate(sentAt),
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: requestedBy,
+        action: 'payment_sent',
+        resource: 'transactions',
+        resourceId: transaction.id,
+        metadata: {
+          groupId: input.groupId,
+          amount: payment.minor,
+          currency: group.currency,
+        },
+        success: true,
+      },
+    });
+
+    if (requestedBy !== input.toUserId) {
+      return { transaction, applications: [] };
+    }
+
+    return applyGroupPayment(tx, transaction, requestedBy);
+  });
+
+  // Recorded by the recipient, so confirmed on the spot
+  if (result.transaction.status === 'completed') {
+    await emitPaymentEvents(result.transaction);
+  }
+
+  const major = (minor: number) => toMajor(minor, group.currency);
+
+  return {
+    transaction: { ...result.transaction, amount: major(result.transaction.amount) },
+    debts: result.applications.map(a => ({
+      debtId: a.debtId,
+      applied: major(a.applied),
+      remaining: major(a.remaining),
+      settled: a.remaining === 0,
+    })),
+  };
+}
+
+/**
+ * Confirm a pending group payment: settle the payer's oldest open debts to the
+ * recipient with it and record it on the ledger. `confirmedBy` is null when the
+ * payment is confirmed automatically.
+ */
+export async function applyGroupPayment(
+  tx: Prisma.TransactionClient,
+  transaction: TransactionRecord,
+  confirmedBy: string | null
+) {
+  const openDebts = await tx.debt.findMany({
+    where: {
+      ...groupDebtsWhere(transaction.groupId!),
+      settled: false,
+      debtorId: transaction.fromUserId,
+      creditorId: transaction.toUserId,
+    },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    select: { id: true, amount: true, planId: true },
+  });
+
+  const outstanding = openDebts.reduce((sum, d) => sum + d.amount, 0);
+  if (transaction.amount > outstanding) {
+    throw new ServiceError('Payment is now more than what is owed', 409, {
+      outstanding: toMajor(outstanding, transaction.currency),
+      currency: transaction.currency,
+    });
+  }
+
+  const settledAt = new Date();
+  const applications = applyPaymentToDebts(openDebts, transaction.amount);
+
+  for (const application of applications) {
+    const debt = openDebts.find(d => d.id === application.debtId)!;
+    const paidOff = application.remaining === 0;
+
+    // Guard on the amount we read so a concurrent payment can't be applied twice
+    const { count } = await tx.debt.updateMany({
+      where: { id: debt.id, settled: false, amount: debt.amount },
+      data: paidOff
+        ? { settled: true, settledAt }
+        : { amount: application.remaining },
+    });
+    if (count === 0) {
+      throw new ServiceError('Debts changed while the payment was being recorded, try again', 409);
+    }
+
+    await tx.debtPayment.create({
+      data: { debtId: debt.id, transactionId: transaction.id, amount: application.applied },
+    });
+  }
+
+  await appendLedgerEntries(
+    tx,
+    {
+      groupId: transaction.groupId!,
+      currency: transaction.currency,
+      type: 'payment',
+      referenceType: 'transaction',
+      referenceId: transaction.id,
+      description: transaction.description || undefined,
+    },
+    [
+      {
+        debtorId: transaction.fromUserId,
+        creditorId: transaction.toUserId,
+        amount: transaction.amount,
+      },
+    ]
+  );
+
+  const planIds = applications
+    .filter(a => a.remaining === 0)
+    .map(a => openDebts.find(d => d.id === a.debtId)!.planId)
+    .filter((id): id is string => id !== null);
+  await completeSettledPlans(tx, planIds);
+
+  const confirmed = await markConfirmed(tx, transaction, confirmedBy, settledAt);
+
+  await tx.auditLog.create({
+    data: {
+      userId: confirmedBy,
+      action: 'debt_settle',
+      resource: 'debts',
+      resourceId: transaction.id,
+      metadata: {
+        groupId: transaction.groupId,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        debtCount: applications.length,
+      },
+      success: true,
+    },
+  });
+
+  return { transaction: confirmed, applications };
+}
+
+/**
+ * Move a pending transaction to completed, failing if someone else got there first
+ */
+export async function markConfirmed(
+  tx: Prisma.TransactionClient,
+  transaction: TransactionRecord,
+  confirmedBy: string | null,
+  completedAt: Date = new Date()
+) {
+  const { count } = await tx.transaction.updateMany({
+    where: { id: transaction.id, status: 'pending' },
+    data: { status: 'completed', completedAt, confirmedBy },
+  });
+  if (count === 0) {
+    throw new ServiceError('Payment is no longer pending', 409);
+  }
+
+  await tx.auditLog.create({
+    data: {
+      userId: confirmedBy,
+      action: 'payment_confirm',
+      resource: 'transactions',
+      resourceId: transaction.id,
+      metadata: {
+        groupId: transaction.groupId,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        automatic: confirmedBy === null,
+      },
+      success: true,
+    },
+  });
+
+  return { ...transaction, status: 'completed', completedAt, confirmedBy };
+}
+
+/**
+ * Cancel loops of debts in a group (A owes B, B owes C, C owes A) by the
+ * smallest debt in each loop, recording a note on every debt touched
+ */
+export async function cancelDebtCycles(groupId: string, requestedBy: string) {
+  const group = await prisma.group.findUnique({
+    where: { id: groupId },
+    include: { members: { include: { user: { select: { id: true, name: true, email: true } } } } },
+  });
+
+  if (!group) {
+    throw new ServiceError('Group not found', 404);
+  }
+
+  if (!group.members.some(m => m.userId === requestedBy)) {
+    throw new ServiceError('Forbidden', 403);
+  }
+
+  const names = new Map(group.members.map(m => [m.userId, m.user.name || m.user.email]));
+  const loopNote = (people: string[]) =>
+    `Cancelled via ${people.map(id => names.get(id) || id).join('→')} loop`;
+
+  const result = await prisma.$transaction(async tx => {
+    const openDebts = await tx.debt.findMany({
+      where: { ...groupDebtsWhere(groupId), settled: false },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      select: { id: true, debtorId: true, creditorId: true, amount: true, planId: true },
+    });
+
+    const { cycles, cancelled } = new DebtOptimizerAgent().cancelCircularDebts(
+      openDebts.map(d => ({ id: d.id, from: d.debtorId, to: d.creditorId, amount: d.amount }))
+    );
+
+    const settledAt = new Date();
+    for (const { index, amount } of cancelled) {
+      const debt = openDebts[index];
+      const remaining = debt.amount - amount;
+
+      const { count } = await tx.debt.updateMany({
+        where: { id: debt.id, settled: false, amount: debt.amount },
+        data: remaining === 0 ? { settled: true, settledAt } : { amount: remaining },
+      });
+      if (count === 0) {
+        throw new ServiceError('Debts changed while cancelling loops, try again', 409);
+      }
+    }
+
+    for (const cycle of cycles) {
+      await tx.debtCancellation.createMany({
+        data: cycle.debts.map(index => ({
+          debtId: openDebts[index].id,
+          amount: cycle.amount,
+          cycle: cycle.people,
+          note: loopNote(cycle.people),
+          createdBy: requestedBy,
+        })),
+      });
+    }
+
+    await completeSettledPlans(
+      tx,
+      cancelled
+        .filter(c => c.amount === openDebts[c.index].amount)
+        .map(c => openDebts[c.index].planId)
+        .filter((id): id is string => id !== null)
+    );
+
+    await tx.auditLog.create({
+      data: {
+        userId: requestedBy,
+        action: 'debt_cycle_cancel',
+        resource: 'debts',
+        resourceId: groupId,
+        metadata: {
+          cycles: cycles.length,
+          debts: cancelled.map(c => ({ debtId: openDebts[c.index].id, amount: c.amount })),
+        },
+        success: true,
+      },
+    });
+
+    return { cycles, cancelled, openDebts };
+  });
+
+  const major = (minor: number) => toMajor(minor, group.currency);
+
+  return {
+    currency: group.currency,
+    cycles: result.cycles.map(cycle => ({
+      people: cycle.people,
+      note: loopNote(cycle.people),
+      amount: major(cycle.amount),
+      debtIds: cycle.debts.map(index => result.openDebts[index].id),
+    })),
+    debts: result.cancelled.map(c => {
+      const debt = result.openDebts[c.index];
+      return {
+        debtId: debt.id,
+        cancelled: major(c.amount),
+        remaining: major(debt.amount - c.amount),
+        settled: debt.amount === c.amount,
+      };
+    }),
+  };
+}
+
+/**
+ * A member's debts in a group with what happened to them:
+ * payments towards them and amounts cancelled through loops
+ */
+export async function getDebtHistory(groupId: string, userId: string) {
+  const group = await prisma.group.findUnique({
+    where: { id: groupId },
+    select: { currency: true, members: { select: { userId: true } } },
+  });
+
+  if (!group) {
+    throw new ServiceError('Group not found', 404);
+  }
+
+  if (!group.members.some(m => m.userId === userId)) {
+    throw new ServiceError('Forbidden', 403);
+  }
+
+  const debts = await prisma.debt.findMany({
+    where: {
+      AND: [groupDebtsWhere(groupId), { OR: [{ debtorId: userId }, { creditorId: userId }] }],
+    },
+    include: {
+      debtor: { select: { id: true, name: true, email: true } },
+      creditor: { select: { id: true, name: true, email: true } },
+      payments: { include: { transaction: true } },
+      cancellations: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const major = (minor: number) => toMajor(minor, group.currency);
+
+  return debts.map(debt => ({
+    id: debt.id,
+    debtor: debt.debtor,
+    creditor: debt.creditor,
+    amount: major(debt.amount),
+    settled: debt.settled,
+    settledAt: debt.settledAt,
+    optimized: debt.optimized,
+    createdAt: debt.createdAt,
+    history: [
+      ...debt.payments.map(p => ({
+        type: 'payment' as const,
+        amount: major(p.amount),
+        note: p.transaction.description || `Paid via ${p.transaction.paymentMethod || 'transfer'}`,
+        transactionId: p.transactionId,
+        at: p.createdAt,
+      })),
+      ...debt.cancellations.map(c => ({
+        type: 'cycle_cancellation' as const,
+        amount: major(c.amount),
+        note: c.note,
+        at: c.createdAt,
+      })),
+    ].sort((a, b) => a.at.getTime() - b.at.getTime()),
+  }));
+}
@@ -0,0 +1,794 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import { convertAt, getExchangeRate } from '@/lib/exchange';
+import { appendLedgerEntries, reverseReceiptEntries } from '@/lib/ledger';
+import { allocateMinor, Money, toMajor } from '@/lib/money';
+import { serializeApiSplit } from '@/lib/public-api';
+import { invalidateSettlementPlans } from '@/lib/settlement-plans';
+import { roundTo } from '@/lib/utils';
+import { emitWebhookEvent } from '@/lib/webhooks';
+
+export interface ItemShareInput {
+  userId: string;
+  share?: number; // Weight relative to the item's other assignees (default 1)
+}
+
+export interface ItemAssignmentInput {
+  itemId: string;
+  shares: ItemShareInput[];
+}
+
+export type TipSplit = 'proportional' | 'even';
+
+// Amounts in major units as entered by the user
+export interface ReceiptExtras {
+  tax?: number;
+  tip?: number;
+  serviceCharge?: number;
+  discount?: number; // Positive amount taken off the bill
+}
+
+// The same charges in minor units
+export interface ReceiptCharges {
+  tax: number;
+  tip: number;
+  serviceCharge: number;
+  discount: number;
+}
+
+export interface PayerInput {
+  userId: string;
+  amount: number;
+}
+
+interface SplitPaymentInput {
+  receiptId: string;
+  paidBy?: string; // Single payer of the whole bill
+  payers?: PayerInput[]; // Or several payers with the amount each paid
+  description?: string;
+}
+
+export interface ItemizedSplitInput extends SplitPaymentInput {
+  items: ItemAssignmentInput[];
+  extras?: ReceiptExtras; // Overrides the amounts stored on the receipt
+  tipSplit?: TipSplit;
+}
+
+export type WholeReceiptMode = 'equal' | 'exact' | 'percentage' | 'shares' | 'adjustment';
+export type SplitMode = 'itemized' | WholeReceiptMode;
+
+export interface ModeParticipantInput {
+  userId: string;
+  amount?: number; // exact
+  percentage?: number; // percentage
+  shares?: number; // shares, e.g. nights stayed
+  adjustment?: number; // adjustment, added on top of an equal part (may be negative)
+}
+
+export interface ModeSplitInput extends SplitPaymentInput {
+  mode: WholeReceiptMode;
+  participants: ModeParticipantInput[];
+}
+
+export interface SplitOptions {
+  // Leave the side effects to the caller, for bulk imports that announce the
+  // change once: no plan invalidation and no split.created webhook
+  quiet?: boolean;
+}
+
+const MODE_DESCRIPTIONS: Record<WholeReceiptMode, string> = {
+  equal: 'Equal split',
+  exact: 'Exact amounts',
+  percentage: 'Split by percentage',
+  shares: 'Split by shares',
+  adjustment: 'Equal split with adjustments',
+};
+
+interface ItemLine {
+  id: string;
+  name: string;
+  price: number; // Minor units
+  quantity: number;
+}
+
+// Minor units
+export interface ShareBreakdown {
+  subtotal: number;
+  tax: number;
+  tip: number;
+  serviceCharge: number;
+  discount: number;
+  total: number;
+}
+
+export interface ParticipantShare {
+  userId: string;
+  amountMinor: number;
+  items: { itemId: string; share: number; amountMinor: number }[];
+  breakdown?: ShareBreakdown;
+  receiptAmountMinor?: number; // Set once converted into the group's currency
+}
+
+export interface PayerShare {
+  userId: string;
+  amountMinor: number;
+}
+
+export interface ShareDebt {
+  from: string;
+  to: string;
+  amountMinor: number;
+}
+
+// Legacy receipts store these charges as line items instead of receipt columns
+const CHARGE_ITEM_CATEGORIES = ['tax', 'tip'] as const;
+
+/**
+ * Work out how much of each receipt item every participant consumed.
+ * Every item must be assigned exactly once.
+ */
+export function calculateItemizedShares(
+  items: ItemLine[],
+  assignments: ItemAssignmentInput[]
+): ParticipantShare[] {
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  const seen = new Set<string>();
+  const participants = new Map<string, ParticipantShare>();
+
+  for (const assignment of assignments) {
+    const item = itemsById.get(assignment.itemId);
+    if (!item) {
+      throw new ServiceError(`Item ${assignment.itemId} is not on this receipt`);
+    }
+    if (seen.has(item.id)) {
+      throw new ServiceError(`Item "${item.name}" is assigned more than once`);
+    }
+    seen.add(item.id);
+
+    if (assignment.shares.length === 0) {
+      throw new ServiceError(`Item "${item.name}" has no assignees`);
+    }
+
+    const userIds = assignment.shares.map(s => s.userId);
+    if (new Set(userIds).size !== userIds.length) {
+      throw new ServiceError(`Item "${item.name}" lists the same person twice`);
+    }
+
+    const weights = assignment.shares.map(s => s.share ?? 1);
+    if (weights.some(w => !(w > 0))) {
+      throw new ServiceError(`Item "${item.name}" has a non-positive share`);
+    }
+
+    const amounts = allocateMinor(item.price * item.quantity, weights);
+
+    assignment.shares.forEach((s, i) => {
+      const participant = participants.get(s.userId) || {
+        userId: s.userId,
+        amountMinor: 0,
+        items: [],
+      };
+      participant.amountMinor += amounts[i];
+      participant.items.push({ itemId: item.id, share: weights[i], amountMinor: amounts[i] });
+      participants.set(s.userId, participant);
+    });
+  }
+
+  const unassigned = items.filter(item => !seen.has(item.id));
+  if (unassigned.length > 0) {
+    throw new ServiceError('Every item must be assigned', 400, {
+      unassigned: unassigned.map(item => ({ id: item.id, name: item.name })),
+    });
+  }
+
+  return Array.from(participants.values());
+}
+
+/**
+ * Spread tax, tip, service charge and discount over participants in proportion
+ * to their item subtotals (tip optionally evenly), recording each person's breakdown
+ */
+export function applyReceiptExtras(
+  shares: ParticipantShare[],
+  charges: ReceiptCharges,
+  tipSplit: TipSplit = 'proportional'
+): ParticipantShare[] {
+  if (shares.length === 0) return shares;
+
+  const subtotals = shares.map(s => s.amountMinor);
+  const even = shares.map(() => 1);
+  const weights = subtotals.some(c => c > 0) ? subtotals : even;
+
+  const tax = allocateMinor(charges.tax, weights);
+  const tip = allocateMinor(charges.tip, tipSplit === 'even' ? even : weights);
+  const serviceCharge = allocateMinor(charges.serviceCharge, weights);
+  const discount = allocateMinor(Math.abs(charges.discount), weights);
+
+  return shares.map((share, i) => {
+    const amountMinor = subtotals[i] + tax[i] + tip[i] + serviceCharge[i] - discount[i];
+    if (amountMinor < 0) {
+      throw new ServiceError('Discount is larger than a participant\'s share');
+    }
+
+    return {
+      ...share,
+      amountMinor,
+      breakdown: {
+        subtotal: subtotals[i],
+        tax: tax[i],
+        tip: tip[i],
+        serviceCharge: serviceCharge[i],
+        discount: discount[i],
+        total: amountMinor,
+      },
+    };
+  });
+}
+
+/**
+ * Split a receipt total between participants for a whole-receipt mode.
+ * Returns minor units in participant order, always summing to the total.
+ * Leftover units follow the allocateMinor rule.
+ */
+export function calculateModeShares(
+  total: Money,
+  mode: WholeReceiptMode,
+  participants: ModeParticipantInput[]
+): number[] {
+  const totalMinor = total.minor;
+  const toMinor = (amount: number) => Money.fromMajor(amount, total.currency).minor;
+
+  if (participants.length === 0) {
+    throw new ServiceError('A split needs at least one participant');
+  }
+
+  const userIds = participants.map(p => p.userId);
+  if (new Set(userIds).size !== userIds.length) {
+    throw new ServiceError('A participant is listed more than once');
+  }
+
+  switch (mode) {
+    case 'equal':
+      return allocateMinor(totalMinor, participants.map(() => 1));
+
+    case 'exact': {
+      const amounts = participants.map(p => {
+        if (p.amount === undefined || p.amount < 0) {
+          throw new ServiceError(`Missing or negative amount for ${p.userId}`);
+        }
+        return toMinor(p.amount);
+      });
+      const sum = amounts.reduce((a, b) => a + b, 0);
+      if (sum !== totalMinor) {
+        throw new ServiceError('Exact amounts must add up to the receipt total', 400, {
+          expected: total,
+          actual: Money.of(sum, total.currency),
+        });
+      }
+      return amounts;
+    }
+
+    case 'percentage': {
+      const percentages = participants.map(p => {
+        if (p.percentage === undefined || p.percentage < 0) {
+          throw new ServiceError(`Missing or negative percentage for ${p.userId}`);
+        }
+        return p.percentage;
+      });
+      const sum = percentages.reduce((a, b) => a + b, 0);
+      if (Math.abs(sum - 100) > 0.001) {
+        throw new ServiceError('Percentages must add up to 100', 400, { actual: sum });
+      }
+      return allocateMinor(totalMinor, percentages);
+    }
+
+    case 'shares': {
+      const weights = participants.map(p => {
+        if (p.shares === undefined || !(p.shares > 0)) {
+          throw new ServiceError(`Missing or non-positive shares for ${p.userId}`);
+        }
+        return p.shares;
+      });
+      return allocateMinor(totalMinor, weights);
+    }
+
+    case 'adjustment': {
+      const adjustments = participants.map(p => toMinor(p.adjustment ?? 0));
+      const remainder = totalMinor - adjustments.reduce((a, b) => a + b, 0);
+      if (remainder < 0) {
+        throw new ServiceError('Adjustments add up to more than the receipt total');
+      }
+      const amounts = allocateMinor(remainder, participants.map(() => 1)).map(
+        (equalPart, i) => equalPart + adjustments[i]
+      );
+      if (amounts.some(a => a < 0)) {
+        throw new ServiceError('An adjustment leaves a participant with a negative share');
+      }
+      return amounts;
+    }
+  }
+}
+
+/**
+ * Work out who paid how much of the bill, from either a single payer
+ * or a list of payers whose amounts must add up to the bill
+ */
+export function resolvePayers(input: SplitPaymentInput, bill: Money): PayerShare[] {
+  if (input.payers && input.payers.length > 0) {
+    const userIds = input.payers.map(p => p.userId);
+    if (new Set(userIds).size !== userIds.length) {
+      throw new ServiceError('A payer is listed more than once');
+    }
+
+    const payers = input.payers.map(p => ({
+      userId: p.userId,
+      amountMinor: Money.fromMajor(p.amount, bill.currency).minor,
+    }));
+    if (payers.some(p => p.amountMinor < 0)) {
+      throw new ServiceError('Paid amounts cannot be negative');
+    }
+
+    const paidMinor = payers.reduce((sum, p) => sum + p.amountMinor, 0);
+    if (paidMinor !== bill.minor) {
+      throw new ServiceError('Paid amounts must add up to the bill total', 400, {
+        expected: bill,
+        actual: Money.of(paidMinor, bill.currency),
+      });
+    }
+
+    return payers.filter(p => p.amountMinor > 0);
+  }
+
+  if (!input.paidBy) {
+    throw new ServiceError('A split needs a payer');
+  }
+
+  return [{ userId: input.paidBy, amountMinor: bill.minor }];
+}
+
+/**
+ * Net what each person consumed against what they paid and turn the
+ * differences into debts, filling creditors in payer order so the result
+ * is deterministic. Nobody ever owes themselves.
+ */
+export function calculatePayerDebts(shares: ParticipantShare[], payers: PayerShare[]): ShareDebt[] {
+  const net = new Map<string, number>();
+  for (const payer of payers) {
+    net.set(payer.userId, (net.get(payer.userId) || 0) + payer.amountMinor);
+  }
+  for (const share of shares) {
+    net.set(share.userId, (net.get(share.userId) || 0) - share.amountMinor);
+  }
+
+  const creditors = payers
+    .map(p => ({ userId: p.userId, minor: net.get(p.userId) || 0 }))
+    .filter(c => c.minor > 0);
+  const debtors = shares
+    .map(s => ({ userId: s.userId, minor: -(net.get(s.userId) || 0) }))
+    .filter(d => d.minor > 0);
+
+  const debts: ShareDebt[] = [];
+  let c = 0;
+  for (const debtor of debtors) {
+    while (debtor.minor > 0 && c < creditors.length) {
+      const amountMinor = Math.min(debtor.minor, creditors[c].minor);
+      debts.push({ from: debtor.userId, to: creditors[c].userId, amountMinor });
+      debtor.minor -= amountMinor;
+      creditors[c].minor -= amountMinor;
+      if (creditors[c].minor === 0) c++;
+    }
+  }
+
+  return debts;
+}
+
+/**
+ * Re-express shares and payments in the group's currency.
+ * The converted bill is allocated by the original amounts, so shares
+ * and payments still match exactly and debts net to zero.
+ */
+export function convertToGroupCurrency(
+  shares: ParticipantShare[],
+  payers: PayerShare[],
+  bill: Money,
+  rate: number,
+  groupCurrency: string
+): { shares: ParticipantShare[]; payers: PayerShare[]; total: Money } {
+  const total = convertAt(bill, rate, groupCurrency);
+  if (bill.isZero()) {
+    return {
+      shares: shares.map(s => ({ ...s, amountMinor: 0, receiptAmountMinor: s.amountMinor })),
+      payers: payers.map(p => ({ ...p, amountMinor: 0 })),
+      total,
+    };
+  }
+
+  const shareAmounts = total.allocate(shares.map(s => s.amountMinor));
+  const payerAmounts = total.allocate(payers.map(p => p.amountMinor));
+
+  return {
+    shares: shares.map((s, i) => ({
+      ...s,
+      amountMinor: shareAmounts[i].minor,
+      receiptAmountMinor: s.amountMinor,
+    })),
+    payers: payers.map((p, i) => ({ ...p, amountMinor: payerAmounts[i].minor })),
+    total,
+  };
+}
+
+/**
+ * Everyone named as a payer in the input
+ */
+function payerIds(input: SplitPaymentInput): string[] {
+  return [
+    ...(input.paidBy ? [input.paidBy] : []),
+    ...(input.payers || []).map(p => p.userId),
+  ];
+}
+
+/**
+ * Load a receipt for splitting and check that the requester and
+ * everyone involved belong to the receipt's group
+ */
+async function loadSplittableReceipt(receiptId: string, requestedBy: string, userIds: string[]) {
+  const receipt = await prisma.receipt.findUnique({
+    where: { id: receiptId },
+    include: {
+      items: true,
+      group: { include: { members: { select: { userId: true } } } },
+      splits: {
+        include: {
+          debts: {
+            select: {
+              settled: true,
+              _count: { select: { payments: true, cancellations: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!receipt) {
+    throw new ServiceError('Receipt not found', 404);
+  }
+
+  if (!receipt.group) {
+    throw new ServiceError('Receipt must belong to a group before it can be split');
+  }
+
+  if (receipt.group.archivedAt) {
+    throw new ServiceError('Group is archived', 409);
+  }
+
+  const memberIds = new Set(receipt.group.members.map(m => m.userId));
+  if (!memberIds.has(requestedBy)) {
+    throw new ServiceError('Forbidden', 403);
+  }
+
+  const outsiders = userIds.filter(id => !memberIds.has(id));
+  if (outsiders.length > 0) {
+    throw new ServiceError('Everyone in a split must be a member of the group', 400, {
+      userIds: outsiders,
+    });
+  }
+
+  const hasSettledDebts = receipt.splits.some(split =>
+    split.debts.some(d => d.settled || d._count.payments + d._count.cancellations > 0)
+  );
+  if (hasSettledDebts) {
+    throw new ServiceError('Receipt has settled debts and can no longer be re-split', 409);
+  }
+
+  return receipt;
+}
+
+/**
+ * Replace any previous split of the receipt with one Split per participant,
+ * the payments that covered it, and the debts left after netting the two
+ */
+async function persistSplits(
+  receiptId: string,
+  payers: PayerShare[],
+  shares: ParticipantShare[],
+  mode: SplitMode,
+  description: string,
+  requestedBy: string,
+  conversion: { rate: number; total: Money } | null,
+  options: SplitOptions
+) {
+  const billMinor = shares.reduce((sum, s) => sum + s.amountMinor, 0);
+  const debts = calculatePayerDebts(shares, payers);
+
+  // Paid amounts of zero are dropped, which leaves nobody on a bill of nothing
+  if (payers.length === 0) {
+    throw new ServiceError('Nothing was paid, so there is nothing to split');
+  }
+
+  // Split.paidBy holds the main payer; the full list lives in ReceiptPayment
+  const mainPayer = payers.reduce((best, p) => (p.amountMinor > best.amountMinor ? p : best));
+
+  return prisma.$transaction(async tx => {
+    await tx.split.deleteMany({ where: { receiptId } });
+    await tx.receiptPayment.deleteMany({ where: { receiptId } });
+
+    const receipt = await tx.receipt.update({
+      where: { id: receiptId },
+      data: {
+        exchangeRate: conversion?.rate ?? null,
+        convertedTotal: conversion?.total.minor ?? null,
+      },
+      include: { group: { select: { currency: true } } },
+    });
+
+    // Balances changed, so earlier optimization plans no longer add up
+    if (!options.quiet) {
+      await invalidateSettlementPlans(tx, receipt.groupId!, 'A new expense changed balances');
+    }
+
+    await reverseReceiptEntries(tx, receiptId);
+    await appendLedgerEntries(
+      tx,
+      {
+        groupId: receipt.groupId!,
+        currency: receipt.group!.currency,
+        type: 'expense',
+        referenceType: 'receipt',
+        referenceId: receiptId,
+        description: receipt.merchant ? `${description} at ${receipt.merchant}` : description,
+      },
+      debts.map(d => ({ debtorId: d.from, creditorId: d.to, amount: d.amountMinor }))
+    );
+
+    await tx.receiptPayment.createMany({
+      data: payers.map(p => ({ receiptId, userId: p.userId, amount: p.amountMinor })),
+    });
+
+    const splits = [];
+    for (const share of shares) {
+      const shareDebts = debts.filter(d => d.from === share.userId);
+      const split = await tx.split.create({
+        data: {
+          receiptId,
+          userId: share.userId,
+          paidBy: mainPayer.userId,
+          amount: share.amountMinor,
+          receiptAmount: share.receiptAmountMinor ?? null,
+          percentage: billMinor > 0 ? roundTo((share.amountMinor / billMinor) * 100, 2) : 0,
+          description,
+          breakdown: share.breakdown as Prisma.InputJsonValue | undefined,
+          assignments: {
+            create: share.items.map(item => ({
+              itemId: item.itemId,
+              share: item.share,
+              amount: item.amountMinor,
+            })),
+          },
+          debts: {
+            create: shareDebts.map(d => ({
+              debtorId: d.from,
+              creditorId: d.to,
+              amount: d.amountMinor,
+            })),
+          },
+        },
+      });
+      splits.push(split);
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId: requestedBy,
+        action: 'split_create',
+        resource: 'receipts',
+        resourceId: receiptId,
+        metadata: { mode, participantCount: shares.length, payerCount: payers.length },
+        success: true,
+      },
+    });
+
+    return splits;
+  });
+}
+
+/**
+ * Convert a receipt's split into its group's currency when they differ,
+ * using the exchange rate on the receipt's date, then persist it
+ */
+async function persistInGroupCurrency(
+  receipt: Awaited<ReturnType<typeof loadSplittableReceipt>>,
+  payers: PayerShare[],
+  shares: ParticipantShare[],
+  bill: Money,
+  mode: SplitMode,
+  description: string,
+  requestedBy: string,
+  options: SplitOptions = {}
+) {
+  const groupCurrency = receipt.group!.currency;
+
+  if (groupCurrency.toUpperCase() === bill.currency) {
+    return persistSplits(receipt.id, payers, shares, mode, description, requestedBy, null, options);
+  }
+
+  const rate = await getExchangeRate(bill.currency, groupCurrency, receipt.date);
+  const converted = convertToGroupCurrency(shares, payers, bill, rate, groupCurrency);
+
+  return persistSplits(
+    receipt.id,
+    converted.payers,
+    converted.shares,
+    mode,
+    description,
+    requestedBy,
+    { rate, total: converted.total },
+    options
+  );
+}
+
+/**
+ * Assign receipt items to group members and persist the resulting splits
+ */
+export async function createItemizedSplit(input: ItemizedSplitInput, requestedBy: string) {
+  const userIds = [
+    ...payerIds(input),
+    ...input.items.flatMap(assignment => assignment.shares.map(s => s.userId)),
+  ];
+  const receipt = await loadSplittableReceipt(input.receiptId, requestedBy, userIds);
+
+  const isChargeItem = (item: { category: string | null }) =>
+    CHARGE_ITEM_CATEGORIES.some(category => category === item.category);
+  const chargeTotal = (category: string) =>
+    receipt.items
+      .filter(item => item.category === category)
+      .reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+  const override = (amount?: number) =>
+    amount === undefined ? undefined : Money.fromMajor(amount, receipt.currency).minor;
+
+  const charges: ReceiptCharges = {
+    tax: override(input.extras?.tax) ?? receipt.tax ?? chargeTotal('tax'),
+    tip: override(input.extras?.tip) ?? receipt.tip ?? chargeTotal('tip'),
+    serviceCharge: override(input.extras?.serviceCharge) ?? receipt.serviceCharge ?? 0,
+    discount: override(input.extras?.discount) ?? receipt.discount ?? 0,
+  };
+
+  const shares = applyReceiptExtras(
+    calculateItemizedShares(
+      receipt.items.filter(item => !isChargeItem(item)),
+      input.items
+    ),
+    charges,
+    input.tipSplit
+  );
+
+  const bill = Money.of(
+    shares.reduce((sum, s) => sum + s.amountMinor, 0),
+    receipt.currency
+  );
+
+  await persistInGroupCurrency(
+    receipt,
+    resolvePayers(input, bill),
+    shares,
+    bill,
+    'itemized',
+    input.description || 'Itemized split',
+    requestedBy
+  );
+
+  return splitCreated(receipt);
+}
+
+/**
+ * Split a whole receipt by one of the non-itemized modes and persist the result
+ */
+export async function createModeSplit(
+  input: ModeSplitInput,
+  requestedBy: string,
+  options: SplitOptions = {}
+) {
+  const userIds = [...payerIds(input), ...input.participants.map(p => p.userId)];
+  const receipt = await loadSplittableReceipt(input.receiptId, requestedBy, userIds);
+
+  const total = Money.of(receipt.total, receipt.currency);
+  if (!total.isPositive()) {
+    throw new ServiceError('Receipt has no total to split yet');
+  }
+
+  const amounts = calculateModeShares(total, input.mode, input.participants);
+  const shares: ParticipantShare[] = input.participants.map((p, i) => ({
+    userId: p.userId,
+    amountMinor: amounts[i],
+    items: [],
+  }));
+
+  await persistInGroupCurrency(
+    receipt,
+    resolvePayers(input, total),
+    shares,
+    total,
+    input.mode,
+    input.description || MODE_DESCRIPTIONS[input.mode],
+    requestedBy,
+    options
+  );
+
+  return options.quiet ? getReceiptSplits(receipt.id) : splitCreated(receipt);
+}
+
+/**
+ * The receipt's new split, announced to the group's webhooks
+ */
+async function splitCreated(receipt: { id: string; groupId: string | null }) {
+  const splits = await getReceiptSplits(receipt.id);
+
+  await emitWebhookEvent(receipt.groupId, 'split.created', {
+    receiptId: receipt.id,
+    splits: splits.map(serializeApiSplit),
+  });
+
+  return splits;
+}
+
+/**
+ * Fetch the current split of a receipt, with each person's items.
+ * Amounts are returned in major units: shares, debts and payments in the
+ * group's currency, the item-level detail in the receipt's own currency.
+ */
+export async function getReceiptSplits(receiptId: string) {
+  const splits = await prisma.split.findMany({
+    where: { receiptId },
+    include: {
+      user: { select: { id: true, name: true, email: true } },
+      payer: { select: { id: true, name: true, email: true } },
+      receipt: {
+        select: {
+          currency: true,
+          exchangeRate: true,
+          payments: true,
+          group: { select: { currency: true } },
+        },
+      },
+      debts: true,
+      assignments: { include: { item: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return splits.map(split => {
+    const { currency, exchangeRate } = split.receipt;
+    const groupCurrency = split.receipt.group?.currency || currency;
+    const major = (minor: number) => toMajor(minor, groupCurrency);
+    const receiptMajor = (minor: number) => toMajor(minor, currency);
+    const breakdown = split.breakdown as ShareBreakdown | null;
+
+    return {
+      ...split,
+      amount: major(split.amount),
+      receiptAmount: split.receiptAmount === null ? null : receiptMajor(split.receiptAmount),
+      breakdown: breakdown
+        ? (Object.fromEntries(
+            Object.entries(breakdown).map(([key, minor]) => [key, receiptMajor(minor)])
+          ) as unknown as ShareBreakdown)
+        : null,
+      receipt: {
+        currency,
+        groupCurrency,
+        exchangeRate,
+        payments: split.receipt.payments.map(p => ({ ...p, amount: major(p.amount) })),
+      },
+      debts: split.debts.map(d => ({
+        ...d,
+        amount: major(d.amount),
+        originalAmount: d.originalAmount === null ? null : major(d.originalAmount),
+      })),
+      assignments: split.assignments.map(a => ({
+        ...a,
+        amount: receiptMajor(a.amount),
+        item: { ...a.item, price: receiptMajor(a.item.price) },
+      })),
+    };
+  });
+}
@@ -0,0 +1,411 @@
+import { createHash } from 'crypto';
+import { requireGroupAdmin } from '@/lib/authz';
+import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import { requireActiveGroup } from '@/lib/groups';
+import { allocateMinor, Money, toMajor } from '@/lib/money';
+import { createReceipt } from '@/lib/receipts';
+import { invalidateSettlementPlans } from '@/lib/settlement-plans';
+import { createModeSplit } from '@/lib/splits';
+import { emitWebhookEvent } from '@/lib/webhooks';
+
+// A Splitwise group export is one row per expense or payment:
+//   Date,Description,Category,Cost,Currency,<person>,<person>,...
+// where each person's column is their net for the row: what they paid minus
+// their share. It ends with a "Total balance" row, which is ignored.
+const FIXED_COLUMNS = ['date', 'description', 'category', 'cost', 'currency'];
+const EXTERNAL_PREFIX = 'splitwise';
+
+export interface SplitwiseImportInput {
+  csv: string;
+  mapping?: Record<string, string>; // Person column -> userId, overriding the automatic match
+  dryRun?: boolean;
+}
+
+export type ImportRowStatus = 'new' | 'imported' | 'duplicate' | 'skipped' | 'error';
+
+export interface ImportColumn {
+  name: string;
+  userId: string | null;
+  matchedBy: 'mapping' | 'email' | 'name' | null;
+}
+
+export interface ImportRow {
+  line: number; // Row in the file, counting the header as row 1 and skipping blank lines
+  date: string;
+  description: string;
+  kind: 'expense' | 'payment';
+  cost: number;
+  currency: string;
+  status: ImportRowStatus;
+  message?: string;
+  receiptId?: string;
+}
+
+interface PlannedRow extends ImportRow {
+  externalId: string;
+  payers: { userId: string; amount: number }[];
+  participants: { userId: string; amount: number }[];
+}
+
+/**
+ * Parse RFC 4180 CSV: quoted fields may hold commas, newlines and "" escapes
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.map(r => r.map(value => value.trim()));
+}
+
+/**
+ * Match each person column to a member: an explicit mapping first, then the
+ * column as an email address, then as a member's name (ignoring case)
+ */
+function matchColumns(
+  names: string[],
+  members: { userId: string; user: { name: string | null; email: string } }[],
+  mapping: Record<string, string>
+): ImportColumn[] {
+  const memberIds = new Set(members.map(m => m.userId));
+  const normalize = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  return names.map(name => {
+    const mapped = mapping[name];
+    if (mapped) {
+      if (!memberIds.has(mapped)) {
+        throw new ServiceError(`"${name}" is mapped to someone who isn't in the group`);
+      }
+      return { name, userId: mapped, matchedBy: 'mapping' as const };
+    }
+
+    const byEmail = members.find(m => m.user.email.toLowerCase() === normalize(name));
+    if (byEmail) {
+      return { name, userId: byEmail.userId, matchedBy: 'email' as const };
+    }
+
+    const byName = members.filter(m => m.user.name && normalize(m.user.name) === normalize(name));
+    if (byName.length === 1) {
+      return { name, userId: byName[0].userId, matchedBy: 'name' as const };
+    }
+
+    return { name, userId: null, matchedBy: null };
+  });
+}
+
+/**
+ * Turn one row's nets back into who paid what and whose share was what.
+ * Everyone with a negative net owes exactly that much. What's left of the cost
+ * is the share of those who are owed, spread in proportion to their nets; each
+ * of them paid their net plus that share. With a single payer, as in most rows,
+ * this is exactly what was entered in Splitwise.
+ */
+function reconstructRow(costMinor: number, nets: { userId: string; net: number }[]) {
+  const debtors = nets.filter(n => n.net < 0);
+  const creditors = nets.filter(n => n.net > 0);
+
+  const owed = debtors.reduce((sum, d) => sum - d.net, 0);
+  const balance = nets.reduce((sum, n) => sum + n.net, 0);
+  if (balance !== 0) {
+    throw new ServiceError('Balances in the row do not add up to zero');
+  }
+  if (creditors.length === 0 || owed > costMinor) {
+    throw new ServiceError('Balances in the row do not match its cost');
+  }
+
+  const creditorShares = allocateMinor(costMinor - owed, creditors.map(c => c.net));
+
+  return {
+    payers: creditors.map((c, i) => ({ userId: c.userId, minor: c.net + creditorShares[i] })),
+    participants: [
+      ...debtors.map(d => ({ userId: d.userId, minor: -d.net })),
+      ...creditors.map((c, i) => ({ userId: c.userId, minor: creditorShares[i] })),
+    ].filter(p => p.minor > 0),
+  };
+}
+
+function toMinorAmount(value: string, currency: string, label: string): number {
+  const amount = value === '' ? 0 : Number(value);
+  if (!Number.isFinite(amount)) {
+    throw new ServiceError(`${label} is not a number`);
+  }
+  return Money.fromMajor(amount, currency).minor;
+}
+
+function planRows(rows: string[][], columns: ImportColumn[]): PlannedRow[] {
+  const seen = new Map<string, number>();
+
+  return rows.map((values, index) => {
+    const [date, description, category, cost, currencyCode] = values;
+    const currency = (currencyCode || '').toUpperCase();
+    const row: PlannedRow = {
+      line: index + 2,
+      date,
+      description,
+      kind: category?.toLowerCase() === 'payment' ? 'payment' : 'expense',
+      cost: Number(cost) || 0,
+      currency,
+      status: 'new',
+      externalId: '',
+      payers: [],
+      participants: [],
+    };
+
+    // Identical rows (two coffees on the same day) are told apart by how many came before
+    const fingerprint = createHash('sha256').update(values.join('\u0000')).digest('hex');
+    const occurrence = seen.get(fingerprint) ?? 0;
+    seen.set(fingerprint, occurrence + 1);
+    row.externalId = `${EXTERNAL_PREFIX}:${fingerprint.slice(0, 32)}:${occurrence}`;
+
+    try {
+      if (!/^[A-Z]{3}$/.test(currency)) {
+        throw new ServiceError('Currency must be a 3-letter code');
+      }
+      if (isNaN(new Date(date).getTime())) {
+        throw new ServiceError('Invalid date');
+      }
+
+      const costMinor = toMinorAmount(cost || '', currency, 'Cost');
+      if (costMinor <= 0) {
+        return { ...row, status: 'skipped' as const, message: 'Nothing to split' };
+      }
+
+      const nets = columns
+        .map((column, i) => ({
+          column,
+          net: toMinorAmount(values[FIXED_COLUMNS.length + i] || '', currency, column.name),
+        }))
+        .filter(n => n.net !== 0);
+
+      if (nets.length === 0) {
+        return { ...row, status: 'skipped' as const, message: 'Nobody owes anyone for it' };
+      }
+
+      const unmatched = nets.filter(n => !n.column.userId).map(n => n.column.name);
+      if (unmatched.length > 0) {
+        throw new ServiceError(`No group member for ${unmatched.join(', ')}`);
+      }
+
+      const { payers, participants } = reconstructRow(
+        costMinor,
+        nets.map(n => ({ userId: n.column.userId!, net: n.net }))
+      );
+
+      row.payers = payers.map(p => ({ userId: p.userId, amount: toMajor(p.minor, currency) }));
+      row.participants = participants.map(p => ({
+        userId: p.userId,
+        amount: toMajor(p.minor, currency),
+      }));
+      return row;
+    } catch (error) {
+      return { ...row, status: 'error' as const, message: rowError(row, error) };
+    }
+  });
+}
+
+// A row that can't be imported is reported, never allowed to stop the others
+function rowError(row: ImportRow, error: unknown): string {
+  if (error instanceof ServiceError) return error.message;
+
+  console.error(`Splitwise import row ${row.line} error:`, error);
+  return 'Could not import this row';
+}
+
+function publicRow({ externalId, payers, participants, ...row }: PlannedRow): ImportRow {
+  return row;
+}
+
+/**
+ * Import a Splitwise group export into a group as receipts without images,
+ * each split by the exact amounts Splitwise recorded. Payments are imported
+ * the way Splitwise keeps them, as an entry the payer covered for the
+ * recipient, so balances come out the same. Rows imported before are skipped.
+ * With dryRun nothing is written and the result previews what would happen.
+ * Admins only.
+ */
+export async function importSplitwiseCsv(
+  groupId: string,
+  input: SplitwiseImportInput,
+  requestedBy: string
+) {
+  await requireGroupAdmin(groupId, requestedBy);
+  await requireActiveGroup(groupId);
+
+  const [header, ...body] = parseCsv(input.csv.replace(/^\uFEFF/, '')).filter(values =>
+    values.some(value => value !== '')
+  );
+
+  const fixed = (header || []).slice(0, FIXED_COLUMNS.length).map(h => h.toLowerCase());
+  if (fixed.join(',') !== FIXED_COLUMNS.join(',')) {
+    throw new ServiceError(
+      `Not a Splitwise export: the header should start with ${FIXED_COLUMNS.join(', ')}`
+    );
+  }
+
+  const people = header.slice(FIXED_COLUMNS.length);
+  if (people.length === 0) {
+    throw new ServiceError('The export has no people columns');
+  }
+
+  const members = await prisma.groupMember.findMany({
+    where: { groupId },
+    select: { userId: true, user: { select: { name: true, email: true } } },
+  });
+  const columns = matchColumns(people, members, input.mapping || {});
+
+  const userIds = columns.map(c => c.userId).filter(Boolean);
+  if (new Set(userIds).size !== userIds.length) {
+    throw new ServiceError('Two people in the export are matched to the same member');
+  }
+
+  const rows = planRows(
+    body.filter(values => values[1]?.toLowerCase() !== 'total balance'),
+    columns
+  );
+
+  const existing = await prisma.receipt.findMany({
+    where: { groupId, externalId: { in: rows.map(r => r.externalId) } },
+    select: { externalId: true },
+  });
+  const imported = new Set(existing.map(r => r.externalId));
+  for (const row of rows) {
+    if (row.status === 'new' && imported.has(row.externalId)) {
+      row.status = 'duplicate';
+      row.message = 'Already imported';
+    }
+  }
+
+  if (!input.dryRun) {
+    // Oldest first, so the group's history reads in order
+    const pending = rows
+      .filter(r => r.status === 'new')
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    for (const row of pending) {
+      await importRow(groupId, row, requestedBy);
+    }
+
+    // Rows are split quietly, so the group hears about the import once
+    const receiptIds = rows.filter(r => r.receiptId).map(r => r.receiptId!);
+
+    await prisma.$transaction(async tx => {
+      if (receiptIds.length > 0) {
+        await invalidateSettlementPlans(tx, groupId, 'Imported expenses changed balances');
+      }
+
+      await tx.auditLog.create({
+        data: {
+          userId: requestedBy,
+          action: 'splitwise_import',
+          resource: 'groups',
+          resourceId: groupId,
+          metadata: summarize(rows),
+          success: true,
+        },
+      });
+    });
+
+    if (receiptIds.length > 0) {
+      await emitWebhookEvent(groupId, 'import.completed', {
+        source: 'splitwise',
+        summary: summarize(rows),
+        receiptIds,
+      });
+    }
+  }
+
+  return { dryRun: !!input.dryRun, columns, rows: rows.map(publicRow), summary: summarize(rows) };
+}
+
+async function importRow(groupId: string, row: PlannedRow, requestedBy: string) {
+  let receiptId: string | undefined;
+
+  try {
+    const receipt = await createReceipt(
+      {
+        groupId,
+        merchant: row.description || 'Splitwise expense',
+        date: new Date(row.date),
+        currency: row.currency,
+        total: row.cost,
+        items: [],
+        externalId: row.externalId,
+      },
+      requestedBy
+    );
+    receiptId = receipt.id;
+
+    await createModeSplit(
+      {
+        mode: 'exact',
+        receiptId,
+        payers: row.payers,
+        participants: row.participants,
+        description: row.kind === 'payment' ? 'Payment (from Splitwise)' : 'Imported from Splitwise',
+      },
+      requestedBy,
+      { quiet: true }
+    );
+
+    row.status = 'imported';
+    row.receiptId = receiptId;
+  } catch (error) {
+    // Leave nothing half-imported, so the row can be tried again
+    if (receiptId) {
+      await prisma.receipt.delete({ where: { id: receiptId } }).catch(deleteError => {
+        console.error(`Splitwise import cleanup of receipt ${receiptId} error:`, deleteError);
+      });
+    }
+    row.status = 'error';
+    row.message = rowError(row, error);
+  }
+}
+
+function summarize(rows: ImportRow[]) {
+  const counts: Record<ImportRowStatus, number> = {
+    new: 0,
+    imported: 0,
+    duplicate: 0,
+    skipped: 0,
+    error: 0,
+  };
+  for (const row of rows) {
+    counts[row.status]++;
+  }
+  return counts;
+}
@@ -0,0 +1,182 @@
+import { Prisma, Transaction as TransactionRecord } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import { toMajor } from '@/lib/money';
+import { applyNettedPayment } from '@/lib/netting';
+import { applyGroupPayment, markConfirmed } from '@/lib/settlements';
+import { emitPaymentEvents } from '@/lib/webhooks';
+
+export type TransactionStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Payments the user sent or received, newest first, amounts in major units
+ */
+export async function listTransactions(
+  userId: string,
+  filter: { groupId?: string; status?: TransactionStatus } = {}
+) {
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      OR: [{ fromUserId: userId }, { toUserId: userId }],
+      ...(filter.groupId && { groupId: filter.groupId }),
+      ...(filter.status && { status: filter.status }),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: 100,
+  });
+
+  return transactions.map(serializeTransaction);
+}
+
+/**
+ * Recipient confirms they received a payment; its debts are settled now
+ */
+export async function confirmTransaction(transactionId: string, requestedBy: string) {
+  const transaction = await loadPending(transactionId);
+
+  if (transaction.toUserId !== requestedBy) {
+    throw new ServiceError('Only the recipient can confirm a payment', 403);
+  }
+
+  const confirmed = await prisma.$transaction(tx => applyPayment(tx, transaction, requestedBy));
+  await emitPaymentEvents(confirmed);
+
+  return serializeTransaction(confirmed);
+}
+
+/**
+ * Recipient says the payment never arrived; the debts stay open
+ */
+export async function disputeTransaction(
+  transactionId: string,
+  reason: string,
+  requestedBy: string
+) {
+  const transaction = await loadPending(transactionId);
+
+  if (transaction.toUserId !== requestedBy) {
+    throw new ServiceError('Only the recipient can dispute a payment', 403);
+  }
+
+  const disputed = await closePending(transaction, requestedBy, 'payment_dispute', {
+    status: 'failed',
+    disputedAt: new Date(),
+    disputeReason: reason,
+  });
+  return serializeTransaction(disputed);
+}
+
+/**
+ * Payer withdraws a payment they marked as sent by mistake
+ */
+export async function cancelTransaction(transactionId: string, requestedBy: string) {
+  const transaction = await loadPending(transactionId);
+
+  if (transaction.fromUserId !== requestedBy) {
+    throw new ServiceError('Only the payer can cancel a payment', 403);
+  }
+
+  const cancelled = await closePending(transaction, requestedBy, 'payment_cancel', {
+    status: 'cancelled',
+    cancelledAt: new Date(),
+  });
+  return serializeTransaction(cancelled);
+}
+
+/**
+ * Confirm every pending payment whose recipient let the confirmation window pass.
+ * Payments that no longer fit the debts (e.g. balances changed) are left pending
+ * for the recipient to sort out and reported as failures.
+ */
+export async function autoConfirmTransactions(now: Date = new Date()) {
+  const due = await prisma.transaction.findMany({
+    where: { status: 'pending', autoConfirmAt: { lte: now } },
+    orderBy: { autoConfirmAt: 'asc' },
+  });
+
+  let confirmed = 0;
+  const failures: { transactionId: string; error: string }[] = [];
+
+  for (const transaction of due) {
+    try {
+      const applied = await prisma.$transaction(tx => applyPayment(tx, transaction, null));
+      await emitPaymentEvents(applied);
+      confirmed++;
+    } catch (error) {
+      if (!(error instanceof ServiceError)) throw error;
+      failures.push({ transactionId: transaction.id, error: error.message });
+    }
+  }
+
+  return { confirmed, failures };
+}
+
+function applyPayment(
+  tx: Prisma.TransactionClient,
+  transaction: TransactionRecord,
+  confirmedBy: string | null
+) {
+  if (transaction.netted) {
+    return applyNettedPayment(tx, transaction, confirmedBy).then(r => r.transaction);
+  }
+
+  if (transaction.groupId) {
+    return applyGroupPayment(tx, transaction, confirmedBy).then(r => r.transaction);
+  }
+
+  // Recorded before payments were tied to a group: nothing to settle
+  return markConfirmed(tx, transaction, confirmedBy);
+}
+
+async function loadPending(transactionId: string) {
+  const transaction = await prisma.transaction.findUnique({ where: { id: transactionId } });
+
+  if (!transaction) {
+    throw new ServiceError('Transaction not found', 404);
+  }
+
+  if (transaction.status !== 'pending') {
+    throw new ServiceError(`Payment is already ${transaction.status}`, 409);
+  }
+
+  return transaction;
+}
+
+async function closePending(
+  transaction: TransactionRecord,
+  requestedBy: string,
+  action: 'payment_dispute' | 'payment_cancel',
+  data: Prisma.TransactionUpdateManyMutationInput
+) {
+  return prisma.$transaction(async tx => {
+    const { count } = await tx.transaction.updateMany({
+      where: { id: transaction.id, status: 'pending' },
+      data,
+    });
+    if (count === 0) {
+      throw new ServiceError('Payment is no longer pending', 409);
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId: requestedBy,
+        action,
+        resource: 'transactions',
+        resourceId: transaction.id,
+        metadata: {
+          groupId: transaction.groupId,
+          amount: transaction.amount,
+          currency: transaction.currency,
+          ...(data.disputeReason ? { reason: data.disputeReason as string } : {}),
+        },
+        success: true,
+      },
+    });
+
+    return tx.transaction.findUniqueOrThrow({ where: { id: transaction.id } });
+  });
+}
+
+export function serializeTransaction(transaction: TransactionRecord) {
+  return { ...transaction, amount: toMajor(transaction.amount, transaction.currency) };
+}
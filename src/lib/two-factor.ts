@@ -0,0 +1,341 @@
+import { createHash, randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+import bcrypt from 'bcryptjs';
+import { authenticator } from 'otplib';
+import QRCode from 'qrcode';
+import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import type { ClientInfo } from '@/lib/http';
+import { checkRateLimit } from '@/lib/redis';
+
+// Accept the previous and next 30-second step too, for clock drift
+authenticator.options = { window: 1 };
+
+const ISSUER = 'FairSplit AI';
+const RECOVERY_CODE_COUNT = 10;
+const MAX_ATTEMPTS = 5; // Per user, every 5 minutes
+
+export const TRUSTED_DEVICE_COOKIE = 'fairsplit.trusted-device';
+export const TRUSTED_DEVICE_DAYS = 30;
+
+export type SecondFactorResult = 'ok' | 'required' | 'invalid' | 'locked';
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Recovery codes are shown as xxxxx-xxxxx but compared without the dash or case
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+function storedRecoveryCodes(value: Prisma.JsonValue): string[] {
+  return Array.isArray(value) ? (value as string[]) : [];
+}
+
+/**
+ * Check a code from the authenticator app and use it up: its time step must be
+ * later than the last one accepted, claimed with a guarded update so the same
+ * code can't be replayed, even concurrently.
+ */
+async function acceptAppCode(userId: string, token: string, secret: string): Promise<boolean> {
+  const delta = authenticator.checkDelta(token, secret);
+  if (delta === null) return false;
+
+  const step = Math.floor(Date.now() / 1000 / authenticator.allOptions().step) + delta;
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+    },
+    data: { twoFactorLastStep: step },
+  });
+
+  return count > 0;
+}
+
+async function audit(
+  userId: string,
+  action: string,
+  client: ClientInfo,
+  success = true,
+  metadata?: Prisma.InputJsonValue
+) {
+  await prisma.auditLog.create({
+    data: {
+      userId,
+      action,
+      resource: 'auth',
+      metadata,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      success,
+    },
+  });
+}
+
+async function findUser(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      passwordHash: true,
+      twoFactorSecret: true,
+      twoFactorEnabledAt: true,
+      twoFactorRecoveryCodes: true,
+    },
+  });
+
+  if (!user) {
+    throw new ServiceError('User not found', 404);
+  }
+
+  return user;
+}
+
+/**
+ * Whether 2FA is on, and how many recovery codes are left
+ */
+export async function getTwoFactorStatus(userId: string) {
+  const user = await findUser(userId);
+  const trustedDevices = await prisma.trustedDevice.count({
+    where: { userId, expiresAt: { gt: new Date() } },
+  });
+
+  return {
+    enabled: user.twoFactorEnabledAt !== null,
+    enabledAt: user.twoFactorEnabledAt,
+    recoveryCodesLeft: storedRecoveryCodes(user.twoFactorRecoveryCodes).length,
+    trustedDevices,
+  };
+}
+
+/**
+ * Start enrollment: store a fresh secret and return it as an otpauth:// URL and
+ * QR code for the authenticator app. Nothing is enforced until it is confirmed.
+ */
+export async function beginTwoFactorSetup(userId: string) {
+  const user = await findUser(userId);
+
+  if (user.twoFactorEnabledAt) {
+    throw new ServiceError('Two-factor authentication is already enabled', 409);
+  }
+  if (!user.passwordHash) {
+    throw new ServiceError('Two-factor authentication protects password sign-in; set a password first');
+  }
+
+  const secret = authenticator.generateSecret();
+  await prisma.user.update({ where: { id: userId }, data: { twoFactorSecret: secret } });
+
+  const otpauthUrl = authenticator.keyuri(user.email, ISSUER, secret);
+
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+/**
+ * Finish enrollment with a code from the app. Returns the recovery codes,
+ * which are only ever shown this once.
+ */
+export async function enableTwoFactor(userId: string, code: string, client: ClientInfo) {
+  const user = await findUser(userId);
+
+  if (user.twoFactorEnabledAt) {
+    throw new ServiceError('Two-factor authentication is already enabled', 409);
+  }
+  if (!user.twoFactorSecret) {
+    throw new ServiceError('Start the two-factor setup first');
+  }
+
+  if (!(await acceptAppCode(userId, code.replace(/\s/g, ''), user.twoFactorSecret))) {
+    await audit(userId, 'two_factor_enable', client, false);
+    throw new ServiceError('Invalid code, check the time on your device and try again');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorEnabledAt: new Date(),
+      twoFactorRecoveryCodes: recoveryCodes.map(c => hash(normalizeRecoveryCode(c))),
+    },
+  });
+
+  await audit(userId, 'two_factor_enable', client);
+
+  return { recoveryCodes };
+}
+
+/**
+ * Turn 2FA off. Needs the password and a current code (or recovery code);
+ * every trusted device is forgotten.
+ */
+export async function disableTwoFactor(
+  userId: string,
+  password: string,
+  code: string,
+  client: ClientInfo
+) {
+  const user = await findUser(userId);
+
+  if (!user.twoFactorEnabledAt) {
+    throw new ServiceError('Two-factor authentication is not enabled', 409);
+  }
+
+  const passwordValid = !!user.passwordHash && (await bcrypt.compare(password, user.passwordHash));
+  if (!passwordValid) {
+    await audit(userId, 'two_factor_disable', client, false, { reason: 'password' });
+    throw new ServiceError('Incorrect password', 403);
+  }
+
+  await requireSecondFactor(userId, code, client);
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorRecoveryCodes: [] },
+    }),
+    prisma.trustedDevice.deleteMany({ where: { userId } }),
+  ]);
+
+  await audit(userId, 'two_factor_disable', client);
+}
+
+/**
+ * Replace all recovery codes, e.g. after using some of them
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string, client: ClientInfo) {
+  const user = await findUser(userId);
+
+  if (!user.twoFactorEnabledAt) {
+    throw new ServiceError('Two-factor authentication is not enabled', 409);
+  }
+
+  await requireSecondFactor(userId, code, client);
+
+  const recoveryCodes = generateRecoveryCodes();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorRecoveryCodes: recoveryCodes.map(c => hash(normalizeRecoveryCode(c))) },
+  });
+
+  await audit(userId, 'two_factor_recovery_codes_regenerate', client);
+
+  return { recoveryCodes };
+}
+
+async function requireSecondFactor(userId: string, code: string, client: ClientInfo) {
+  const result = await verifySecondFactor(userId, code, client);
+
+  if (result === 'locked') {
+    throw new ServiceError('Too many attempts, try again later', 429);
+  }
+  if (result !== 'ok') {
+    throw new ServiceError('Invalid two-factor code', 403);
+  }
+}
+
+/**
+ * Check a code from the authenticator app, or one of the recovery codes (which
+ * is then used up). Failures are audited, and attempts are rate limited.
+ */
+export async function verifySecondFactor(
+  userId: string,
+  code: string,
+  client: ClientInfo
+): Promise<SecondFactorResult> {
+  const { allowed } = await checkRateLimit(`two-factor:${userId}`, MAX_ATTEMPTS, 5 * 60);
+  if (!allowed) {
+    await audit(userId, 'two_factor_verify', client, false, { reason: 'rate_limited' });
+    return 'locked';
+  }
+
+  const user = await findUser(userId);
+  const token = code.replace(/\s/g, '');
+
+  if (user.twoFactorSecret && /^\d{6}$/.test(token)) {
+    if (await acceptAppCode(userId, token, user.twoFactorSecret)) return 'ok';
+  } else {
+    const codes = storedRecoveryCodes(user.twoFactorRecoveryCodes);
+    const hashed = hash(normalizeRecoveryCode(token));
+
+    if (codes.includes(hashed)) {
+      const remaining = codes.filter(c => c !== hashed);
+      // Guarded on the old list so the same code can't be spent twice concurrently
+      const { count } = await prisma.user.updateMany({
+        where: { id: userId, twoFactorRecoveryCodes: { equals: codes } },
+        data: { twoFactorRecoveryCodes: remaining },
+      });
+
+      if (count > 0) {
+        await audit(userId, 'two_factor_recovery_code_use', client, true, {
+          remaining: remaining.length,
+        });
+        return 'ok';
+      }
+    }
+  }
+
+  await audit(userId, 'two_factor_verify', client, false);
+  return 'invalid';
+}
+
+/**
+ * The second step of password sign-in. Users without 2FA and trusted devices
+ * pass straight through; everyone else needs a valid code.
+ */
+export async function checkSecondFactor(
+  userId: string,
+  { code, deviceToken }: { code?: string; deviceToken?: string },
+  client: ClientInfo
+): Promise<SecondFactorResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabledAt: true },
+  });
+
+  if (!user?.twoFactorEnabledAt) return 'ok';
+  if (deviceToken && (await isTrustedDevice(userId, deviceToken))) return 'ok';
+  if (!code) return 'required';
+
+  return verifySecondFactor(userId, code, client);
+}
+
+/**
+ * Remember this browser so it can skip the code for TRUSTED_DEVICE_DAYS.
+ * Returns the cookie value.
+ */
+export async function trustDevice(userId: string, client: ClientInfo) {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + TRUSTED_DEVICE_DAYS * 24 * 60 * 60 * 1000);
+
+  await prisma.trustedDevice.create({
+    data: {
+      userId,
+      tokenHash: hash(token),
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      expiresAt,
+    },
+  });
+
+  await audit(userId, 'two_factor_trust_device', client);
+
+  return { token, expiresAt };
+}
+
+async function isTrustedDevice(userId: string, token: string): Promise<boolean> {
+  const { count } = await prisma.trustedDevice.updateMany({
+    where: { userId, tokenHash: hash(token), expiresAt: { gt: new Date() } },
+    data: { lastUsedAt: new Date() },
+  });
+
+  return count > 0;
+}
@@ -1,6 +1,7 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import crypto from 'crypto';
+import { Money } from '@/lib/money';
 
 /**
  * Merge Tailwind CSS classes
@@ -10,15 +11,11 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 /**
- * Format currency
+ * Format currency (plain numbers are treated as major units)
  */
-export function formatCurrency(amount: number, currency: string = 'USD'): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(amount);
+export function formatCurrency(amount: Money | number, currency: string = 'USD'): string {
+  const money = amount instanceof Money ? amount : Money.fromMajor(amount, currency);
+  return money.format();
 }
 
 /**
@@ -0,0 +1,498 @@
+import { createHmac, randomBytes } from 'crypto';
+import type { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { Prisma } from '@prisma/client';
+import type { Transaction, Webhook } from '@prisma/client';
+import { requireGroupAdmin } from '@/lib/authz';
+import { prisma } from '@/lib/db';
+import { ServiceError } from '@/lib/errors';
+import { toMajor } from '@/lib/money';
+import { API_DEBT_INCLUDE, serializeApiDebt } from '@/lib/public-api';
+
+export const WEBHOOK_EVENTS = [
+  'receipt.parsed',
+  'split.created',
+  'debt.settled',
+  'transaction.confirmed',
+  'import.completed',
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Each attempt waits twice as long as the one before, like Agent.retryWithBackoff,
+// but between runs of scripts/retry-webhooks.ts rather than in-process:
+// 1, 2, 4, 8 and 16 minutes, then the delivery is marked failed.
+const MAX_ATTEMPTS = 6;
+const INITIAL_DELAY_MS = 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const RESPONSE_BODY_LIMIT = 2000;
+
+// Claimed deliveries are pushed this far into the future while being sent, so
+// the retry script and the request that emitted the event don't both send one
+const CLAIM_MS = 2 * 60 * 1000;
+
+// Addresses a webhook may not point at, so it can't be used to reach the
+// server's own network: loopback, private, link-local (including the cloud
+// metadata endpoint 169.254.169.254), unique-local, multicast, reserved, and
+// the IPv6 ranges that embed an IPv4 address (NAT64, 6to4)
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface WebhookInput {
+  url: string;
+  events: WebhookEvent[];
+  active?: boolean;
+}
+
+function serializeWebhook(webhook: Webhook) {
+  return { ...webhook, events: webhook.events as WebhookEvent[] };
+}
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address it maps to
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isBlockedAddress(mapped[1]);
+
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Check a webhook URL is https and that every address its host resolves to is
+ * public, returning those addresses. Run when the URL is saved and again before
+ * each delivery, which then connects to the addresses checked here rather than
+ * resolving the name again.
+ */
+async function checkUrl(url: string): Promise<LookupAddress[]> {
+  const parsed = new URL(url);
+  const local = process.env.NODE_ENV !== 'production';
+
+  if (parsed.protocol !== 'https:' && !(local && parsed.protocol === 'http:')) {
+    throw new ServiceError('Webhook URLs must use https');
+  }
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    throw new ServiceError(`Could not resolve ${host}`);
+  }
+
+  if (addresses.length === 0 || addresses.some(a => isBlockedAddress(a.address))) {
+    throw new ServiceError('Webhook URLs must point at a public address');
+  }
+
+  return addresses;
+}
+
+/**
+ * POST to a URL, connecting only to the given addresses. Redirects are not
+ * followed. Resolves with the status and the start of the response body.
+ */
+function postPinned(
+  url: string,
+  addresses: LookupAddress[],
+  headers: Record<string, string>,
+  body: string
+): Promise<{ status: number; body: string }> {
+  // Hands the checked addresses to the connection instead of asking DNS again
+  const pinned: LookupFunction = (hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      const match = addresses.find(a => !options.family || a.family === options.family);
+      callback(null, (match ?? addresses[0]).address, (match ?? addresses[0]).family);
+    }
+  };
+
+  const client = url.startsWith('https:') ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+        lookup: pinned,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      },
+      response => {
+        let text = '';
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => {
+          if (text.length < RESPONSE_BODY_LIMIT) text += chunk;
+        });
+        response.on('end', () =>
+          resolve({ status: response.statusCode ?? 0, body: text.slice(0, RESPONSE_BODY_LIMIT) })
+        );
+        response.on('error', reject);
+      }
+    );
+
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Sign a payload the way receivers should check it: HMAC-SHA256 of
+ * "<timestamp>.<body>" with the webhook's secret, sent as
+ * `X-FairSplit-Signature: t=<timestamp>,v1=<hex digest>`
+ */
+export function signPayload(secret: string, body: string, timestamp: number): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+async function loadWebhook(groupId: string, webhookId: string) {
+  const webhook = await prisma.webhook.findFirst({ where: { id: webhookId, groupId } });
+  if (!webhook) {
+    throw new ServiceError('Webhook not found', 404);
+  }
+  return webhook;
+}
+
+/**
+ * A group's webhooks. Admins only, since they include the signing secrets.
+ */
+export async function listWebhooks(groupId: string, requestedBy: string) {
+  await requireGroupAdmin(groupId, requestedBy);
+
+  const webhooks = await prisma.webhook.findMany({
+    where: { groupId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return webhooks.map(serializeWebhook);
+}
+
+export async function createWebhook(groupId: string, input: WebhookInput, requestedBy: string) {
+  await requireGroupAdmin(groupId, requestedBy);
+  await checkUrl(input.url);
+
+  return prisma.$transaction(async tx => {
+    const webhook = await tx.webhook.create({
+      data: {
+        groupId,
+        url: input.url,
+        secret: `whsec_${randomBytes(24).toString('base64url')}`,
+        events: Array.from(new Set(input.events)),
+        active: input.active ?? true,
+        createdBy: requestedBy,
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: requestedBy,
+        action: 'webhook_create',
+        resource: 'groups',
+        resourceId: groupId,
+        metadata: { webhookId: webhook.id, url: input.url, events: input.events },
+        success: true,
+      },
+    });
+
+    return serializeWebhook(webhook);
+  });
+}
+
+/**
+ * Change where a webhook points, what it's sent, or pause it
+ */
+export async function updateWebhook(
+  groupId: string,
+  webhookId: string,
+  input: Partial<WebhookInput>,
+  requestedBy: string
+) {
+  await requireGroupAdmin(groupId, requestedBy);
+  await loadWebhook(groupId, webhookId);
+  if (input.url) await checkUrl(input.url);
+
+  return prisma.$transaction(async tx => {
+    const webhook = await tx.webhook.update({
+      where: { id: webhookId },
+      data: {
+        url: input.url,
+        events: input.events && Array.from(new Set(input.events)),
+        active: input.active,
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: requestedBy,
+        action: 'webhook_update',
+        resource: 'groups',
+        resourceId: groupId,
+        metadata: { webhookId, ...input } as Prisma.InputJsonValue,
+        success: true,
+      },
+    });
+
+    return serializeWebhook(webhook);
+  });
+}
+
+export async function deleteWebhook(groupId: string, webhookId: string, requestedBy: string) {
+  await requireGroupAdmin(groupId, requestedBy);
+  const webhook = await loadWebhook(groupId, webhookId);
+
+  await prisma.$transaction([
+    prisma.webhook.delete({ where: { id: webhookId } }),
+    prisma.auditLog.create({
+      data: {
+        userId: requestedBy,
+        action: 'webhook_delete',
+        resource: 'groups',
+        resourceId: groupId,
+        metadata: { webhookId, url: webhook.url },
+        success: true,
+      },
+    }),
+  ]);
+}
+
+/**
+ * A webhook's most recent deliveries, newest first
+ */
+export async function listDeliveries(groupId: string, webhookId: string, requestedBy: string) {
+  await requireGroupAdmin(groupId, requestedBy);
+  await loadWebhook(groupId, webhookId);
+
+  return prisma.webhookDelivery.findMany({
+    where: { webhookId },
+    orderBy: { createdAt: 'desc' },
+    take: 50,
+  });
+}
+
+/**
+ * Send a past delivery's payload again as a new delivery, whatever became of it
+ */
+export async function redeliver(
+  groupId: string,
+  webhookId: string,
+  deliveryId: string,
+  requestedBy: string
+) {
+  await requireGroupAdmin(groupId, requestedBy);
+  await loadWebhook(groupId, webhookId);
+
+  const original = await prisma.webhookDelivery.findFirst({
+    where: { id: deliveryId, webhookId },
+  });
+  if (!original) {
+    throw new ServiceError('Delivery not found', 404);
+  }
+
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      webhookId,
+      event: original.event,
+      payload: original.payload as Prisma.InputJsonValue,
+      nextAttemptAt: new Date(),
+      redeliveryOf: original.id,
+    },
+  });
+
+  return attemptDelivery(delivery.id);
+}
+
+/**
+ * Queue an event for every active webhook of the group subscribed to it, then
+ * try to send them without holding up the caller. Anything that doesn't get
+ * through is retried by scripts/retry-webhooks.ts. Never throws: a webhook
+ * problem must not fail the change that triggered it.
+ */
+export async function emitWebhookEvent(
+  groupId: string | null | undefined,
+  event: WebhookEvent,
+  data: unknown
+) {
+  if (!groupId) return;
+
+  try {
+    const webhooks = await prisma.webhook.findMany({
+      where: { groupId, active: true },
+      select: { id: true, events: true },
+    });
+    const subscribed = webhooks.filter(w => (w.events as string[]).includes(event));
+    if (subscribed.length === 0) return;
+
+    const payload = {
+      id: `evt_${randomBytes(12).toString('base64url')}`,
+      event,
+      groupId,
+      createdAt: new Date().toISOString(),
+      data: JSON.parse(JSON.stringify(data)),
+    } as Prisma.InputJsonValue;
+
+    const deliveries = await prisma.$transaction(
+      subscribed.map(webhook =>
+        prisma.webhookDelivery.create({
+          data: { webhookId: webhook.id, event, payload, nextAttemptAt: new Date() },
+          select: { id: true },
+        })
+      )
+    );
+
+    for (const delivery of deliveries) {
+      attemptDelivery(delivery.id).catch(error => {
+        console.error(`Webhook delivery ${delivery.id} error:`, error);
+      });
+    }
+  } catch (error) {
+    console.error(`Webhook ${event} error:`, error);
+  }
+}
+
+/**
+ * Tell the webhooks of every group a confirmed payment touched about it and the
+ * debts it settled. Call once the confirmation has committed, whichever way the
+ * payment was confirmed.
+ */
+export async function emitPaymentEvents(transaction: Transaction) {
+  const payments = await prisma.debtPayment.findMany({
+    where: { transactionId: transaction.id },
+    include: { debt: { include: API_DEBT_INCLUDE } },
+  });
+  const debts = payments.map(p => serializeApiDebt(p.debt));
+
+  const groupIds = transaction.groupId
+    ? [transaction.groupId]
+    : Array.from(new Set(debts.map(d => d.groupId)));
+  const data = { ...transaction, amount: toMajor(transaction.amount, transaction.currency) };
+
+  for (const groupId of groupIds) {
+    await emitWebhookEvent(groupId, 'transaction.confirmed', data);
+  }
+
+  for (const debt of debts.filter(d => d.settled)) {
+    await emitWebhookEvent(debt.groupId, 'debt.settled', debt);
+  }
+}
+
+/**
+ * Send every delivery whose next attempt is due. Run periodically.
+ */
+export async function retryDueDeliveries(now: Date = new Date()) {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: 'asc' },
+    select: { id: true },
+    take: 500,
+  });
+
+  let succeeded = 0;
+  let failed = 0;
+
+  for (const { id } of due) {
+    const delivery = await attemptDelivery(id, now);
+    if (delivery.status === 'succeeded') succeeded++;
+    if (delivery.status === 'failed') failed++;
+  }
+
+  return { attempted: due.length, succeeded, failed };
+}
+
+/**
+ * POST a delivery once and record the outcome. A 2xx response is a success;
+ * anything else schedules the next attempt, or fails the delivery after the last.
+ */
+async function attemptDelivery(deliveryId: string, now: Date = new Date()) {
+  const { count } = await prisma.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: 'pending', nextAttemptAt: { lte: now } },
+    data: { nextAttemptAt: new Date(now.getTime() + CLAIM_MS) },
+  });
+
+  if (count === 0) {
+    // Already sent, given up on, or being sent by someone else
+    return prisma.webhookDelivery.findUniqueOrThrow({ where: { id: deliveryId } });
+  }
+
+  const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: { webhook: true },
+  });
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const addresses = await checkUrl(delivery.webhook.url);
+
+    const response = await postPinned(
+      delivery.webhook.url,
+      addresses,
+      {
+        'Content-Type': 'application/json',
+        'User-Agent': 'FairSplit-Webhooks/1.0',
+        'X-FairSplit-Event': delivery.event,
+        'X-FairSplit-Delivery': delivery.id,
+        'X-FairSplit-Signature': signPayload(delivery.webhook.secret, body, timestamp),
+      },
+      body
+    );
+
+    responseStatus = response.status;
+    responseBody = response.body;
+    if (response.status < 200 || response.status >= 300) {
+      error = `HTTP ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const succeeded = error === null;
+  const givenUp = !succeeded && attempts >= MAX_ATTEMPTS;
+
+  return prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      attempts,
+      status: succeeded ? 'succeeded' : givenUp ? 'failed' : 'pending',
+      nextAttemptAt:
+        succeeded || givenUp
+          ? null
+          : new Date(Date.now() + INITIAL_DELAY_MS * Math.pow(2, attempts - 1)),
+      responseStatus,
+      responseBody,
+      error,
+      durationMs: Date.now() - started,
+      deliveredAt: succeeded ? new Date() : null,
+    },
+  });
+}
@@ -7,7 +7,7 @@ export interface User {
 
 export interface Receipt {
   id: string;
-  imageUrl: string;
+  imageUrl: string | null;
   merchant: string | null;
   total: number;
   date: Date;